@@ -1,69 +1,48 @@
 import { NextResponse } from "next/server";
+import { apiError, upstreamErrorResponse } from "@/lib/apiErrors";
+import { getAnalyzerBackend } from "@/lib/analyzerBackends";
+import type { BulkCompareResult } from "@/lib/apiPlaceholders";
+import { analyzeSubmissions, lookupCachedResults, parseBulkRequest } from "@/lib/bulkAnalysis";
+import { bypassesCache, cacheStatusHeader, type CacheOutcome } from "@/lib/resultCache";
+import { UpstreamError } from "@/lib/upstreamResilience";
 
-const BULK_API_URL = "https://ai-plagiarism-checker-and-quality-scorer.onrender.com/bulk-compare";
 export const dynamic = "force-dynamic";
 
-type SubmissionInput = { id: string; code: string };
-
-function sanitizeSubmissions(input: unknown): SubmissionInput[] {
-  if (!Array.isArray(input)) return [];
-  return input
-    .map((entry, index) => {
-      const id = typeof entry?.id === "string" && entry.id.trim() ? entry.id.trim() : `submission-${index + 1}`;
-      const code = typeof entry?.code === "string" ? entry.code : "";
-      return { id, code };
-    })
-    .filter((entry) => entry.code.trim().length > 0);
-}
-
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-    const language = typeof body?.language === "string" ? body.language : "python";
-    const reference_code = typeof body?.reference_code === "string" ? body.reference_code : "";
-    const submissions = sanitizeSubmissions(body?.submissions);
-
-    if (!reference_code.trim()) {
-      return NextResponse.json({ ok: false, message: "reference_code is required" }, { status: 400 });
+    const parsed = parseBulkRequest(await request.json());
+    if (!parsed.ok) {
+      return apiError("INVALID_REQUEST", parsed.message, 400);
     }
-
-    if (!submissions.length) {
-      return NextResponse.json({ ok: false, message: "At least one submission is required" }, { status: 400 });
+    const bulk = parsed.value;
+
+    const backend = getAnalyzerBackend();
+    const bypass = bypassesCache(request);
+    const cached = bypass ? { results: new Map<string, BulkCompareResult>(), minTtlMs: 0 } : lookupCachedResults(backend, bulk);
+    const pending = bulk.submissions.filter((submission) => !cached.results.has(submission.id));
+
+    const resolved = new Map(cached.results);
+    let stored = false;
+    if (pending.length) {
+      try {
+        const fresh = await analyzeSubmissions(backend, bulk, pending);
+        fresh.results.forEach((result) => resolved.set(result.id, result));
+        stored = fresh.stored;
+      } catch (error) {
+        if (error instanceof UpstreamError) return upstreamErrorResponse(error);
+        throw error;
+      }
     }
 
-    const upstreamResponse = await fetch(BULK_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ language, reference_code, submissions }),
-      cache: "no-store",
-    });
-
-    const text = await upstreamResponse.text();
-    let data: unknown = null;
-    try {
-      data = text ? JSON.parse(text) : null;
-    } catch {
-      // leave data as null so we can surface parsing errors via response below
-    }
-
-    if (!upstreamResponse.ok) {
-      const message = typeof (data as { message?: string } | null)?.message === "string"
-        ? (data as { message?: string }).message
-        : `Upstream error (${upstreamResponse.status})`;
-      return NextResponse.json({ ok: false, message, details: data }, { status: upstreamResponse.status });
-    }
-
-    if (!data) {
-      return NextResponse.json({ ok: false, message: "Empty upstream response" }, { status: 500 });
-    }
+    const results = bulk.submissions.flatMap((submission) => resolved.get(submission.id) ?? []);
+    const hits = bulk.submissions.length - pending.length;
+    let outcome: CacheOutcome = { kind: "miss", stored };
+    if (bypass) outcome = { kind: "bypass", stored };
+    else if (!pending.length) outcome = { kind: "hit", ttlRemainingMs: cached.minTtlMs };
+    else if (hits) outcome = { kind: "partial", hits, total: bulk.submissions.length, stored };
 
-    return NextResponse.json(data);
+    return NextResponse.json({ ok: true, results }, { headers: { "Cache-Status": cacheStatusHeader(outcome) } });
   } catch (error) {
-    return NextResponse.json(
-      { ok: false, message: error instanceof Error ? error.message : "Unexpected server error" },
-      { status: 500 },
-    );
+    return apiError("INTERNAL_ERROR", error instanceof Error ? error.message : "Unexpected server error", 500);
   }
 }
@@ -0,0 +1,78 @@
+import { apiError } from "@/lib/apiErrors";
+import { getAnalyzerBackend } from "@/lib/analyzerBackends";
+import type { BulkCompareResult, BulkStreamEvent } from "@/lib/apiPlaceholders";
+import { analyzeSubmissions, lookupCachedResults, parseBulkRequest, streamConcurrency } from "@/lib/bulkAnalysis";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { bypassesCache } from "@/lib/resultCache";
+import { failedBulkResult } from "@/lib/responseValidation";
+import { UpstreamError } from "@/lib/upstreamResilience";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  try {
+    const parsed = parseBulkRequest(await request.json());
+    if (!parsed.ok) {
+      return apiError("INVALID_REQUEST", parsed.message, 400);
+    }
+    const bulk = parsed.value;
+    const backend = getAnalyzerBackend();
+    const cached = bypassesCache(request)
+      ? new Map<string, BulkCompareResult>()
+      : lookupCachedResults(backend, bulk).results;
+    const pending = bulk.submissions.filter((submission) => !cached.has(submission.id));
+
+    const encoder = new TextEncoder();
+    let closed = false;
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: BulkStreamEvent) => {
+          if (!closed) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        };
+
+        send({ type: "start", total: bulk.submissions.length, cached: cached.size });
+        cached.forEach((result) => send({ type: "result", result, cached: true }));
+
+        try {
+          // one upstream call per file so each result can be sent as soon as it is ready
+          await mapWithConcurrency(pending, streamConcurrency(), async (submission) => {
+            if (closed || request.signal.aborted) return;
+            send({ type: "started", id: submission.id });
+            try {
+              const { results } = await analyzeSubmissions(backend, bulk, [submission]);
+              send({ type: "result", result: results[0], cached: false });
+            } catch (error) {
+              if (!(error instanceof UpstreamError)) throw error;
+              send({ type: "result", result: failedBulkResult(submission.id, error.message), cached: false });
+            }
+          });
+          send({ type: "done" });
+        } catch (error) {
+          send({
+            type: "error",
+            code: "INTERNAL_ERROR",
+            message: error instanceof Error ? error.message : "Unexpected server error",
+          });
+        }
+
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      },
+      cancel() {
+        closed = true;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Cache-Control": "no-store",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    return apiError("INTERNAL_ERROR", error instanceof Error ? error.message : "Unexpected server error", 500);
+  }
+}
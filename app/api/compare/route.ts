@@ -1,54 +1,80 @@
 import { NextResponse } from "next/server";
+import { apiError } from "@/lib/apiErrors";
+import { getAnalyzerBackend, type BackendResponse } from "@/lib/analyzerBackends";
+import type { CompareCodesResponse } from "@/lib/apiPlaceholders";
+import { DEFAULT_LANGUAGE, resolveLanguageId } from "@/lib/languages";
+import { compareLocally } from "@/lib/localSimilarity";
+import { describeIssues, validateCompareResponse } from "@/lib/responseValidation";
+import {
+  analysisKey,
+  bypassesCache,
+  cacheStatusHeader,
+  createResultCache,
+  resultCacheOptionsFromEnv,
+  type CacheOutcome,
+} from "@/lib/resultCache";
+import { UpstreamError, upstreamMessage } from "@/lib/upstreamResilience";
 
-const API_URL = "https://ai-plagiarism-checker-and-quality-scorer.onrender.com/compare";
+const COMPARE_ENGINE = process.env.COMPARE_ENGINE?.trim().toLowerCase() === "local" ? "local" : "remote";
 export const dynamic = "force-dynamic";
 
+const cache = createResultCache<CompareCodesResponse>(resultCacheOptionsFromEnv());
+
+function respond(data: CompareCodesResponse, outcome: CacheOutcome) {
+  return NextResponse.json(data, { headers: { "Cache-Status": cacheStatusHeader(outcome) } });
+}
+
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const language = typeof body?.language === "string" ? body.language : "python";
+    const language = typeof body?.language === "string" ? resolveLanguageId(body.language) ?? body.language : DEFAULT_LANGUAGE;
     const reference_code = typeof body?.reference_code === "string" ? body.reference_code : "";
     const submission_code = typeof body?.submission_code === "string" ? body.submission_code : "";
 
     if (!reference_code.trim() || !submission_code.trim()) {
-      return NextResponse.json(
-        { ok: false, message: "Both reference_code and submission_code are required" },
-        { status: 400 },
-      );
+      return apiError("INVALID_REQUEST", "Both reference_code and submission_code are required", 400);
+    }
+
+    const payload = { language, reference_code, submission_code };
+    if (COMPARE_ENGINE === "local") {
+      // the local engine is never cached; say so like every other compare response
+      return respond(compareLocally(payload), { kind: "bypass", stored: false });
     }
 
-    const upstreamResponse = await fetch(API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ language, reference_code, submission_code }),
-      cache: "no-store",
-    });
-
-    const text = await upstreamResponse.text();
-    let data: unknown = null;
+    const backend = getAnalyzerBackend();
+    const key = analysisKey(backend.config, language, reference_code, submission_code);
+    const bypass = bypassesCache(request);
+    const cached = bypass ? undefined : cache.get(key);
+    if (cached) {
+      return respond(cached.value, { kind: "hit", ttlRemainingMs: cached.ttlRemainingMs });
+    }
+    const missed = { kind: bypass ? "bypass" : "miss", stored: false } as const;
+
+    let upstream: BackendResponse;
     try {
-      data = text ? JSON.parse(text) : null;
-    } catch {
-      // leave data as null to surface parsing failure
+      upstream = await backend.compare(payload);
+    } catch (error) {
+      if (!(error instanceof UpstreamError)) throw error;
+      // upstream down, timed out, cold-starting or tripped the breaker: answer from the local engine
+      return respond({ ...compareLocally(payload), fallback_reason: error.code }, missed);
+    }
+
+    const { status, data } = upstream;
+    if (status >= 300) {
+      return apiError("UPSTREAM_REJECTED", upstreamMessage(data, status), status, { details: data });
     }
 
-    if (!upstreamResponse.ok) {
-      const message = typeof (data as { message?: string } | null)?.message === "string"
-        ? (data as { message?: string }).message
-        : `Upstream error (${upstreamResponse.status})`;
-      return NextResponse.json(
-        { ok: false, message, details: data },
-        { status: upstreamResponse.status },
-      );
+    const validated = validateCompareResponse(data, backend.config.scales);
+    if (!validated.ok) {
+      console.warn(`[compare] ${describeIssues(validated.issues)}`);
+      return respond({ ...compareLocally(payload), fallback_reason: "UPSTREAM_BAD_RESPONSE" }, missed);
     }
 
-    return NextResponse.json(data ?? { ok: false, message: "Empty upstream response" });
+    // local fallbacks above are never stored, so a recovered upstream is used on the next run
+    const result: CompareCodesResponse =
+      backend.config.kind === "mock" ? validated.value : { ...validated.value, engine: "remote" };
+    return respond(result, { ...missed, stored: cache.set(key, result) });
   } catch (error) {
-    return NextResponse.json(
-      { ok: false, message: error instanceof Error ? error.message : "Unexpected server error" },
-      { status: 500 },
-    );
+    return apiError("INTERNAL_ERROR", error instanceof Error ? error.message : "Unexpected server error", 500);
   }
 }
@@ -91,8 +91,8 @@ export default function Home() {
           <p className="text-xs uppercase tracking-[0.5em] text-white/60">Bulk data support</p>
           <h2 className="text-3xl font-semibold text-white">Upload dozens of files and inspect each verdict in-line.</h2>
           <p className="text-white/70">
-            Plagify’s bulk mode batches Python submissions, ranks them by risk or quality, and pipes their
-            metrics straight into the same four-tab workspace. Pick any filename from the dropdown and the
+            Plagify’s bulk mode batches Python, Java, C/C++ or JavaScript submissions, ranks them by risk or
+            quality, and pipes their metrics straight into the same four-tab workspace. Pick any filename from the dropdown and the
             plagiarism, quality, AST, and normalization tabs instantly reflect that submission’s evidence so
             you never juggle separate dashboards.
           </p>
@@ -121,7 +121,7 @@ export default function Home() {
           <p className="text-sm uppercase tracking-[0.4em] text-white/50">Bulk flow snapshot</p>
           <ol className="mt-5 space-y-4 text-sm">
             <li>
-              <p className="font-semibold text-white">1. Upload .py files</p>
+              <p className="font-semibold text-white">1. Upload source files</p>
               <p className="text-white/60">Monaco editor lets you preview or tweak every submission before running the batch.</p>
             </li>
             <li>
@@ -1,6 +1,25 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { ASTNode } from "@/lib/ast";
+import { DIFF_STATUS_COLORS, diffAst, type AstDiffStatus } from "@/lib/astDiff";
+import {
+  indexForest,
+  layoutBounds,
+  layoutForest,
+  layoutSideBySide,
+  nodeKey,
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  type ForestEntry,
+  type PositionedNode,
+} from "@/lib/astLayout";
+import { createAstSpatialIndex, type AstSpatialIndex, type Rect, type SubtreeSummary } from "@/lib/astSpatialIndex";
+import { buildAstSvg, EXPORT_BACKGROUND, fullLayoutArea, type WorldRect } from "@/lib/astSvg";
+import { downloadBlob, fileTimestamp } from "@/lib/download";
+import { MATCH_COLORS } from "@/lib/matchedRegions";
+
+export type { ASTNode } from "@/lib/ast";
 
 declare global {
   interface HTMLElementEventMap {
@@ -10,49 +29,83 @@ declare global {
   }
 }
 
-export type ASTNode = {
-  type: string;
-  value?: string;
-  children?: ASTNode[];
-};
-
 interface ASTVisualizerProps {
   nodes: ASTNode[];
+  /** Switches to diff mode: `nodes` is drawn as the reference and this forest as the submission. */
+  compareTo?: ASTNode[];
   title?: string;
   subtitle?: string;
   emptyMessage?: string;
 }
 
-type PositionedNode = {
-  id: number;
-  type: string;
-  value?: string;
-  depth: number;
-  x: number;
-  y: number;
-  parentId?: number;
-};
-
 type ViewState = {
   scale: number;
   offsetX: number;
   offsetY: number;
 };
 
-const NODE_WIDTH = 140;
-const NODE_HEIGHT = 68;
-const HORIZONTAL_GAP = 150;
-const VERTICAL_GAP = 120;
-const MIN_SCALE = 0.4;
+type DiffOverlay = {
+  counts: Record<AstDiffStatus, number>;
+  /** Indexed by `PositionedNode.index` on each side. */
+  statuses: Record<"reference" | "submission", AstDiffStatus[]>;
+  /** Node keys of aligned subtree roots, reference first. */
+  links: [string, string][];
+};
+
+type SearchHighlight = {
+  hits: ReadonlySet<string>;
+  current?: string;
+};
+
+/** Collapse state remembers the forests it belongs to, so new trees start fully expanded. */
+type CollapseState = {
+  nodes: ASTNode[];
+  compareTo?: ASTNode[];
+  keys: ReadonlySet<string>;
+};
+
+type ExportArea = "view" | "full";
+
+type MinimapFrame = NonNullable<ReturnType<typeof minimapFrame>>;
+
+/** Minimap nodes drawn once per layout; each redraw only adds the viewport frame. */
+type MinimapLayer = {
+  nodes: PositionedNode[];
+  overlay: DiffOverlay | null;
+  devicePixelRatio: number;
+  canvas: HTMLCanvasElement;
+};
+
+const NO_KEYS: ReadonlySet<string> = new Set();
+const NO_HIGHLIGHT: SearchHighlight = { hits: NO_KEYS };
+const EXPORT_SCALES = [1, 2, 3, 4];
+// Browsers refuse to allocate (or silently blank) canvases much larger than this.
+const MAX_EXPORT_SIDE = 16_384;
+const MAX_EXPORT_PIXELS = 64_000_000;
+const DEFAULT_EXPAND_DEPTH = 3;
+const CLICK_TOLERANCE = 4;
+const MINIMAP_WIDTH = 176;
+const MINIMAP_HEIGHT = 112;
+// Zooming out goes well past the point where labels are readable, so whole large trees fit;
+// the initial view still stops at a readable scale.
+const MIN_SCALE = 0.03;
+const MIN_FIT_SCALE = 0.4;
 const MAX_SCALE = 2.6;
+// Level of detail: below DETAIL_SCALE cards lose their text and glow, below SUMMARY_SCALE
+// subtrees narrower than SUMMARY_MIN_WIDTH screen pixels are drawn as a single wedge.
+const DETAIL_SCALE = 0.35;
+const SUMMARY_SCALE = 0.15;
+const SUMMARY_MIN_WIDTH = 32;
+const SUMMARY_LABEL_COUNT = 25;
 
 export function ASTVisualizer({
   nodes,
+  compareTo,
   title = "AST visualization",
   subtitle,
   emptyMessage = "Awaiting analysis",
 }: ASTVisualizerProps) {
-  const hasNodes = nodes && nodes.length > 0;
+  const hasNodes = (nodes && nodes.length > 0) || Boolean(compareTo?.length);
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [dimensions, setDimensions] = useState({ width: 900, height: 480 });
@@ -61,21 +114,124 @@ export function ASTVisualizer({
   const hasInteractedRef = useRef(false);
   const dragging = useRef(false);
   const pointerOrigin = useRef({ x: 0, y: 0 });
+  const pointerTravel = useRef(0);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  const minimapLayer = useRef<MinimapLayer | null>(null);
+  const pendingFrame = useRef<number | null>(null);
+  const [collapseState, setCollapseState] = useState<CollapseState | null>(null);
+  const [query, setQuery] = useState("");
+  const [hitIndex, setHitIndex] = useState(0);
+  const [expandDepth, setExpandDepth] = useState(DEFAULT_EXPAND_DEPTH);
+  const [focusRequest, setFocusRequest] = useState<{ key: string; nonce: number } | null>(null);
+  const handledFocus = useRef<number | null>(null);
+  const [exportArea, setExportArea] = useState<ExportArea>("full");
+  const [exportScale, setExportScale] = useState(2);
+  const [exportNotice, setExportNotice] = useState<string | null>(null);
+
+  const collapsed =
+    collapseState && collapseState.nodes === nodes && collapseState.compareTo === compareTo ? collapseState.keys : NO_KEYS;
+
+  const positionedNodes = useMemo(
+    () =>
+      compareTo ? layoutSideBySide(nodes, compareTo, collapsed) : layoutForest(nodes, { collapsed }),
+    [nodes, compareTo, collapsed],
+  );
+  const spatialIndex = useMemo(() => createAstSpatialIndex(positionedNodes), [positionedNodes]);
+  const frame = useMemo(() => minimapFrame(positionedNodes), [positionedNodes]);
+  const entries = useMemo<ForestEntry[]>(
+    () => (compareTo ? [...indexForest(nodes, "reference"), ...indexForest(compareTo, "submission")] : indexForest(nodes)),
+    [nodes, compareTo],
+  );
+  const entriesByKey = useMemo(() => new Map(entries.map((entry) => [entry.key, entry])), [entries]);
+
+  const diff = useMemo(() => (compareTo ? diffAst(nodes, compareTo) : null), [nodes, compareTo]);
+  const overlay = useMemo<DiffOverlay | null>(() => {
+    if (!diff) return null;
+    return {
+      counts: countStatuses([...diff.reference, ...diff.submission]),
+      statuses: { reference: diff.reference, submission: diff.submission },
+      links: diff.subtreeRoots.map(([reference, submission]) => [
+        nodeKey("reference", reference),
+        nodeKey("submission", submission),
+      ]),
+    };
+  }, [diff]);
+
+  const hits = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+    return entries.filter(
+      (entry) => entry.type.toLowerCase().includes(needle) || Boolean(entry.value?.toLowerCase().includes(needle)),
+    );
+  }, [entries, query]);
+  const currentHit = hits.length ? hits[Math.min(hitIndex, hits.length - 1)] : undefined;
+  const highlight = useMemo<SearchHighlight>(
+    () => ({ hits: new Set(hits.map((entry) => entry.key)), current: currentHit?.key }),
+    [hits, currentHit],
+  );
+
+  const updateCollapsed = useCallback(
+    (update: (keys: Set<string>) => void) => {
+      const keys = new Set(collapsed);
+      update(keys);
+      setCollapseState({ nodes, compareTo, keys });
+    },
+    [collapsed, nodes, compareTo],
+  );
 
-  const positionedNodes = useMemo(() => layoutForest(nodes), [nodes]);
+  const drawMinimap = useCallback(() => {
+    const minimap = minimapRef.current;
+    const ctx = minimap?.getContext("2d");
+    if (!minimap || !ctx) return;
+    const dpr = typeof window === "undefined" ? 1 : window.devicePixelRatio || 1;
+    resizeCanvas(minimap, MINIMAP_WIDTH, MINIMAP_HEIGHT, dpr);
+    let layer = minimapLayer.current;
+    if (!layer || layer.nodes !== positionedNodes || layer.overlay !== overlay || layer.devicePixelRatio !== dpr) {
+      const canvas = document.createElement("canvas");
+      canvas.width = MINIMAP_WIDTH * dpr;
+      canvas.height = MINIMAP_HEIGHT * dpr;
+      const layerCtx = canvas.getContext("2d");
+      if (layerCtx && frame) renderMinimapNodes(layerCtx, positionedNodes, frame, dpr, overlay);
+      layer = { nodes: positionedNodes, overlay, devicePixelRatio: dpr, canvas };
+      minimapLayer.current = layer;
+    }
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, minimap.width, minimap.height);
+    ctx.drawImage(layer.canvas, 0, 0);
+    if (frame) renderMinimapViewport(ctx, frame, viewRef.current, dimensions, dpr);
+  }, [positionedNodes, frame, dimensions, overlay]);
 
   const redraw = useCallback(() => {
+    // an immediate redraw supersedes any frame scheduled with older props
+    if (pendingFrame.current !== null) {
+      cancelAnimationFrame(pendingFrame.current);
+      pendingFrame.current = null;
+    }
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
     const dpr = typeof window === "undefined" ? 1 : window.devicePixelRatio || 1;
-    canvas.width = dimensions.width * dpr;
-    canvas.height = dimensions.height * dpr;
-    canvas.style.width = `${dimensions.width}px`;
-    canvas.style.height = `${dimensions.height}px`;
-    renderScene(ctx, positionedNodes, viewRef.current, dpr);
-  }, [dimensions, positionedNodes]);
+    resizeCanvas(canvas, dimensions.width, dimensions.height, dpr);
+    renderScene(ctx, spatialIndex, viewRef.current, dpr, overlay, highlight);
+    drawMinimap();
+  }, [dimensions, spatialIndex, overlay, highlight, drawMinimap]);
+
+  /** Coalesces pointer and wheel bursts into one redraw per animation frame. */
+  const scheduleRedraw = useCallback(() => {
+    if (pendingFrame.current !== null) return;
+    pendingFrame.current = requestAnimationFrame(() => {
+      pendingFrame.current = null;
+      redraw();
+    });
+  }, [redraw]);
+
+  useEffect(
+    () => () => {
+      if (pendingFrame.current !== null) cancelAnimationFrame(pendingFrame.current);
+    },
+    [],
+  );
 
   useEffect(() => {
     const container = containerRef.current;
@@ -95,7 +251,7 @@ export function ASTVisualizer({
 
   useEffect(() => {
     hasInteractedRef.current = false;
-  }, [nodes]);
+  }, [nodes, compareTo]);
 
   useEffect(() => {
     if (!positionedNodes.length) {
@@ -108,6 +264,22 @@ export function ASTVisualizer({
     redraw();
   }, [positionedNodes, dimensions, redraw]);
 
+  // runs after the layout that revealed the requested node, once per request
+  useEffect(() => {
+    if (!focusRequest || handledFocus.current === focusRequest.nonce) return;
+    const target = spatialIndex.byKey.get(focusRequest.key);
+    if (!target) return;
+    handledFocus.current = focusRequest.nonce;
+    const scale = clamp(Math.max(viewRef.current.scale, 0.9), MIN_SCALE, MAX_SCALE);
+    viewRef.current = {
+      scale,
+      offsetX: dimensions.width / 2 - target.x * scale,
+      offsetY: dimensions.height / 2 - (target.y + NODE_HEIGHT / 2) * scale,
+    };
+    hasInteractedRef.current = true;
+    redraw();
+  }, [focusRequest, spatialIndex, dimensions, redraw]);
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -142,14 +314,15 @@ export function ASTVisualizer({
         offsetY: mouseY - worldY * nextScale,
       };
       hasInteractedRef.current = true;
-      redraw();
+      scheduleRedraw();
     },
-    [redraw],
+    [scheduleRedraw],
   );
 
   const handlePointerDown = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
     event.stopPropagation();
     dragging.current = true;
+    pointerTravel.current = 0;
     pointerOrigin.current = { x: event.clientX, y: event.clientY };
     event.currentTarget.setPointerCapture(event.pointerId);
     hasInteractedRef.current = true;
@@ -161,24 +334,94 @@ export function ASTVisualizer({
       event.stopPropagation();
       const deltaX = event.clientX - pointerOrigin.current.x;
       const deltaY = event.clientY - pointerOrigin.current.y;
+      pointerTravel.current += Math.abs(deltaX) + Math.abs(deltaY);
       pointerOrigin.current = { x: event.clientX, y: event.clientY };
       viewRef.current = {
         ...viewRef.current,
         offsetX: viewRef.current.offsetX + deltaX,
         offsetY: viewRef.current.offsetY + deltaY,
       };
-      redraw();
+      scheduleRedraw();
     },
-    [redraw],
+    [scheduleRedraw],
   );
 
-  const endPan = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
-    event.stopPropagation();
-    dragging.current = false;
-    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
-      event.currentTarget.releasePointerCapture(event.pointerId);
-    }
-  }, []);
+  const endPan = useCallback(
+    (event: React.PointerEvent<HTMLCanvasElement>) => {
+      event.stopPropagation();
+      const wasClick = dragging.current && pointerTravel.current < CLICK_TOLERANCE;
+      dragging.current = false;
+      if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+        event.currentTarget.releasePointerCapture(event.pointerId);
+      }
+      if (!wasClick) return;
+      const rect = event.currentTarget.getBoundingClientRect();
+      const view = viewRef.current;
+      const target = spatialIndex.nodeAt(
+        (event.clientX - rect.left - view.offsetX) / view.scale,
+        (event.clientY - rect.top - view.offsetY) / view.scale,
+      );
+      if (!target?.childCount) return;
+      updateCollapsed((keys) => {
+        if (keys.has(target.key)) keys.delete(target.key);
+        else keys.add(target.key);
+      });
+    },
+    [spatialIndex, updateCollapsed],
+  );
+
+  const goToHit = useCallback(
+    (index: number) => {
+      if (!hits.length) return;
+      const wrapped = (index + hits.length) % hits.length;
+      const hit = hits[wrapped];
+      setHitIndex(wrapped);
+      // open every collapsed ancestor so the hit is laid out
+      const hidden: string[] = [];
+      for (let key = hit.parentKey; key; key = entriesByKey.get(key)?.parentKey) {
+        if (collapsed.has(key)) hidden.push(key);
+      }
+      if (hidden.length) updateCollapsed((keys) => hidden.forEach((key) => keys.delete(key)));
+      setFocusRequest({ key: hit.key, nonce: Date.now() });
+    },
+    [hits, entriesByKey, collapsed, updateCollapsed],
+  );
+
+  // the first step shows the current hit, later steps move on from it
+  const stepHit = (delta: number) =>
+    goToHit(currentHit && focusRequest?.key === currentHit.key ? hitIndex + delta : hitIndex);
+
+  const expandToDepth = useCallback(
+    (depth: number) => {
+      updateCollapsed((keys) => {
+        keys.clear();
+        entries.forEach((entry) => {
+          if (entry.childCount && entry.depth >= depth) keys.add(entry.key);
+        });
+      });
+    },
+    [entries, updateCollapsed],
+  );
+
+  const handleMinimapPointer = useCallback(
+    (event: React.PointerEvent<HTMLCanvasElement>) => {
+      if (event.type === "pointermove" && event.buttons !== 1) return;
+      event.stopPropagation();
+      const rect = event.currentTarget.getBoundingClientRect();
+      if (!frame) return;
+      const worldX = frame.minX + (event.clientX - rect.left - frame.padX) / frame.scale;
+      const worldY = frame.minY + (event.clientY - rect.top - frame.padY) / frame.scale;
+      const view = viewRef.current;
+      viewRef.current = {
+        ...view,
+        offsetX: dimensions.width / 2 - worldX * view.scale,
+        offsetY: dimensions.height / 2 - worldY * view.scale,
+      };
+      hasInteractedRef.current = true;
+      scheduleRedraw();
+    },
+    [frame, dimensions, scheduleRedraw],
+  );
 
   const resetView = useCallback(() => {
     if (!positionedNodes.length) return;
@@ -187,6 +430,70 @@ export function ASTVisualizer({
     redraw();
   }, [dimensions, positionedNodes, redraw]);
 
+  /** World rectangle to export and how many CSS pixels one world unit takes at 1×. */
+  const exportRegion = (): { area: WorldRect; ratio: number } => {
+    if (exportArea === "full") return { area: fullLayoutArea(positionedNodes), ratio: 1 };
+    const view = viewRef.current;
+    return {
+      area: {
+        x: -view.offsetX / view.scale,
+        y: -view.offsetY / view.scale,
+        width: dimensions.width / view.scale,
+        height: dimensions.height / view.scale,
+      },
+      ratio: view.scale,
+    };
+  };
+
+  const exportFilename = (extension: string) =>
+    `plagify-${compareTo ? "ast-diff" : "ast"}-${fileTimestamp()}.${extension}`;
+
+  const handleExportPng = () => {
+    const { area, ratio } = exportRegion();
+    const width = area.width * ratio;
+    const height = area.height * ratio;
+    const scale = Math.min(
+      exportScale,
+      MAX_EXPORT_SIDE / width,
+      MAX_EXPORT_SIDE / height,
+      Math.sqrt(MAX_EXPORT_PIXELS / (width * height)),
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      setExportNotice("This browser could not create an image for the export.");
+      return;
+    }
+    const view = { scale: ratio, offsetX: -area.x * ratio, offsetY: -area.y * ratio };
+    renderScene(ctx, spatialIndex, view, scale, overlay, NO_HIGHLIGHT, EXPORT_BACKGROUND);
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        setExportNotice("The image was too large to encode; try a smaller scale or the SVG export.");
+        return;
+      }
+      downloadBlob(exportFilename("png"), blob, "image/png");
+      setExportNotice(
+        scale < exportScale
+          ? `Exported at ${scale.toFixed(1)}× instead of ${exportScale}× to stay within the browser's image size limit.`
+          : null,
+      );
+    }, "image/png");
+  };
+
+  const handleExportSvg = () => {
+    const { area } = exportRegion();
+    const svg = buildAstSvg(positionedNodes, {
+      area,
+      statusOf: (node) => statusOf(node, overlay),
+      links: overlay?.links,
+      title,
+    });
+    downloadBlob(exportFilename("svg"), svg, "image/svg+xml");
+    setExportNotice(null);
+  };
+
   const panelClasses = [
     "glass-panel rounded-3xl p-6 transition-all",
     isFullscreen ? "fixed inset-6 z-50 h-[calc(100vh-3rem)] w-[calc(100vw-3rem)]" : "",
@@ -211,6 +518,45 @@ export function ASTVisualizer({
         <p className="text-xs uppercase tracking-[0.4em] text-white/50">{title}</p>
           <div className="flex items-center gap-3">
             {subtitle && <span className="text-xs text-white/40">{subtitle}</span>}
+            {hasNodes && (
+              <div className="flex items-center gap-1.5 text-xs text-white/70">
+                <select
+                  value={exportArea}
+                  onChange={(event) => setExportArea(event.target.value === "view" ? "view" : "full")}
+                  aria-label="Export area"
+                  className="rounded-full border border-white/20 bg-black/40 px-2 py-1 focus:outline-none"
+                >
+                  <option value="full">Full tree</option>
+                  <option value="view">Current view</option>
+                </select>
+                <select
+                  value={exportScale}
+                  onChange={(event) => setExportScale(Number(event.target.value))}
+                  aria-label="PNG scale"
+                  className="rounded-full border border-white/20 bg-black/40 px-2 py-1 focus:outline-none"
+                >
+                  {EXPORT_SCALES.map((scale) => (
+                    <option key={scale} value={scale}>
+                      {scale}×
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={handleExportPng}
+                  className="rounded-full border border-white/20 bg-black/40 px-3 py-1 transition hover:text-white"
+                >
+                  PNG
+                </button>
+                <button
+                  type="button"
+                  onClick={handleExportSvg}
+                  className="rounded-full border border-white/20 bg-black/40 px-3 py-1 transition hover:text-white"
+                >
+                  SVG
+                </button>
+              </div>
+            )}
             <button
               type="button"
               onClick={() => setIsFullscreen((prev) => !prev)}
@@ -220,6 +566,81 @@ export function ASTVisualizer({
             </button>
           </div>
       </div>
+      {exportNotice && <p className="mb-3 text-xs text-amber-200/80">{exportNotice}</p>}
+      {hasNodes && (
+        <div className="mb-3 flex flex-wrap items-center gap-2 text-xs text-white/70">
+          <input
+            type="search"
+            value={query}
+            onChange={(event) => {
+              setQuery(event.target.value);
+              setHitIndex(0);
+            }}
+            onKeyDown={(event) => {
+              if (event.key !== "Enter") return;
+              event.preventDefault();
+              stepHit(event.shiftKey ? -1 : 1);
+            }}
+            placeholder="Find node by type or value"
+            aria-label="Find node by type or value"
+            className="w-56 rounded-full border border-white/15 bg-black/40 px-3 py-1 text-white placeholder:text-white/40 focus:border-cyan-300/60 focus:outline-none"
+          />
+          <span className="min-w-16 text-white/50">
+            {query.trim() ? (hits.length ? `${Math.min(hitIndex, hits.length - 1) + 1} of ${hits.length}` : "no match") : ""}
+          </span>
+          <button
+            type="button"
+            onClick={() => stepHit(-1)}
+            disabled={!hits.length}
+            className="rounded-full border border-white/15 px-2.5 py-1 transition hover:text-white disabled:opacity-40"
+            aria-label="Previous match"
+          >
+            ↑
+          </button>
+          <button
+            type="button"
+            onClick={() => stepHit(1)}
+            disabled={!hits.length}
+            className="rounded-full border border-white/15 px-2.5 py-1 transition hover:text-white disabled:opacity-40"
+            aria-label="Next match"
+          >
+            ↓
+          </button>
+          <span className="ml-auto flex items-center gap-2">
+            <label className="flex items-center gap-1.5">
+              Depth
+              <input
+                type="number"
+                min={0}
+                value={expandDepth}
+                onChange={(event) => setExpandDepth(Math.max(0, Number(event.target.value) || 0))}
+                className="w-14 rounded-full border border-white/15 bg-black/40 px-2 py-1 text-white focus:outline-none"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => expandToDepth(expandDepth)}
+              className="rounded-full border border-white/15 px-3 py-1 transition hover:text-white"
+            >
+              Expand to depth
+            </button>
+            <button
+              type="button"
+              onClick={() => updateCollapsed((keys) => keys.clear())}
+              className="rounded-full border border-white/15 px-3 py-1 transition hover:text-white"
+            >
+              Expand all
+            </button>
+            <button
+              type="button"
+              onClick={() => expandToDepth(0)}
+              className="rounded-full border border-white/15 px-3 py-1 transition hover:text-white"
+            >
+              Collapse all
+            </button>
+          </span>
+        </div>
+      )}
       {hasNodes ? (
           <div ref={containerRef} className={canvasWrapperClasses}>
           <canvas
@@ -236,8 +657,28 @@ export function ASTVisualizer({
             style={{ touchAction: "none" }}
           />
           <div className="pointer-events-none absolute left-4 top-4 text-xs uppercase tracking-[0.3em] text-white/50">
-            Scroll to zoom · drag to pan
+            Scroll to zoom · drag to pan · click to fold
           </div>
+          <canvas
+            ref={minimapRef}
+            aria-label="Minimap"
+            className="absolute bottom-4 right-4 cursor-pointer rounded-xl border border-white/15 bg-black/70"
+            style={{ width: MINIMAP_WIDTH, height: MINIMAP_HEIGHT, touchAction: "none" }}
+            onPointerDown={handleMinimapPointer}
+            onPointerMove={handleMinimapPointer}
+          />
+          {diff && overlay && (
+            <div className="pointer-events-none absolute bottom-4 left-4 flex flex-wrap items-center gap-3 rounded-full bg-black/60 px-4 py-1.5 text-xs text-white/70">
+              <span className="font-semibold text-white">{Math.round(diff.similarity * 100)}% aligned</span>
+              {(Object.keys(DIFF_STATUS_COLORS) as AstDiffStatus[]).map((status) => (
+                <span key={status} className="flex items-center gap-1.5">
+                  <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: DIFF_STATUS_COLORS[status] }} />
+                  {status} {overlay.counts[status]}
+                </span>
+              ))}
+              <span className="text-white/40">dashed links join aligned subtrees</span>
+            </div>
+          )}
           <button
             type="button"
             onClick={resetView}
@@ -256,69 +697,12 @@ export function ASTVisualizer({
   );
 }
 
-function layoutForest(nodes: ASTNode[]): PositionedNode[] {
-  const positions: PositionedNode[] = [];
-  let cursor = 0;
-
-  const visit = (node: ASTNode, depth: number, parentId?: number): number => {
-    const id = positions.length;
-    positions.push({
-      id,
-      type: node.type,
-      value: node.value,
-      depth,
-      x: 0,
-      y: depth * VERTICAL_GAP,
-      parentId,
-    });
-
-    const children = node.children ?? [];
-    if (!children.length) {
-      positions[id].x = cursor * HORIZONTAL_GAP;
-      cursor += 1;
-      return id;
-    }
-
-    const childIds = children.map((child) => visit(child, depth + 1, id));
-    const averageX = childIds.reduce((sum, childId) => sum + positions[childId].x, 0) / childIds.length;
-    positions[id].x = averageX;
-    return id;
-  };
-
-  nodes.forEach((node) => visit(node, 0));
-
-  if (!positions.length) return positions;
-  const minX = Math.min(...positions.map((node) => node.x));
-  positions.forEach((node) => {
-    node.x -= minX;
-  });
-  return positions;
-}
-
 function computeInitialView(nodes: PositionedNode[], dimensions: { width: number; height: number }): ViewState {
   if (!nodes.length) {
     return { scale: 1, offsetX: dimensions.width / 2 - NODE_WIDTH / 2, offsetY: 60 };
   }
 
-  const bounds = nodes.reduce(
-    (acc, node) => {
-      const left = node.x - NODE_WIDTH / 2;
-      const right = node.x + NODE_WIDTH / 2;
-      const bottom = node.y + NODE_HEIGHT;
-      return {
-        minX: Math.min(acc.minX, left),
-        maxX: Math.max(acc.maxX, right),
-        minY: Math.min(acc.minY, node.y),
-        maxY: Math.max(acc.maxY, bottom),
-      };
-    },
-    {
-      minX: Infinity,
-      maxX: -Infinity,
-      minY: Infinity,
-      maxY: -Infinity,
-    },
-  );
+  const bounds = layoutBounds(nodes);
 
   const treeWidth = Math.max(1, bounds.maxX - bounds.minX);
   const treeHeight = Math.max(1, bounds.maxY - bounds.minY);
@@ -326,22 +710,33 @@ function computeInitialView(nodes: PositionedNode[], dimensions: { width: number
   const scaleX = (dimensions.width - margin) / treeWidth;
   const scaleY = (dimensions.height - margin) / treeHeight;
   const baseScale = Math.min(scaleX, scaleY, 1.4);
-  const scale = clamp(baseScale, MIN_SCALE, MAX_SCALE);
+  const scale = clamp(baseScale, MIN_FIT_SCALE, MAX_SCALE);
   const centerX = (bounds.minX + bounds.maxX) / 2;
   const offsetX = dimensions.width / 2 - centerX * scale;
   const offsetY = margin / 2 - bounds.minY * scale;
   return { scale, offsetX, offsetY };
 }
 
+function statusOf(node: PositionedNode, overlay: DiffOverlay | null) {
+  return overlay && node.side ? overlay.statuses[node.side][node.index] : undefined;
+}
+
 function renderScene(
   ctx: CanvasRenderingContext2D,
-  nodes: PositionedNode[],
+  index: AstSpatialIndex,
   view: ViewState,
   devicePixelRatio: number,
+  overlay: DiffOverlay | null,
+  highlight: SearchHighlight,
+  background?: string,
 ) {
   ctx.save();
   ctx.setTransform(1, 0, 0, 1, 0, 0);
   ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  }
   ctx.scale(devicePixelRatio, devicePixelRatio);
 
   drawBackground(ctx, view);
@@ -349,12 +744,107 @@ function renderScene(
   ctx.translate(view.offsetX, view.offsetY);
   ctx.scale(view.scale, view.scale);
 
-  drawEdges(ctx, nodes, view.scale);
-  drawNodes(ctx, nodes);
+  // only what intersects the viewport is drawn; zoomed far out, narrow subtrees become wedges
+  const visible = visibleWorld(view, ctx.canvas.width / devicePixelRatio, ctx.canvas.height / devicePixelRatio);
+  const detailed = view.scale >= DETAIL_SCALE;
+  const { nodes, summaries } =
+    view.scale < SUMMARY_SCALE
+      ? index.summarize(visible, SUMMARY_MIN_WIDTH / view.scale)
+      : { nodes: index.query(visible), summaries: [] };
+
+  drawEdges(ctx, index.nodes, [...nodes, ...summaries.map((summary) => summary.root)], view.scale, detailed);
+  if (overlay) {
+    drawForestLabels(ctx, index.sideLeft);
+    drawDiffLinks(ctx, index.byKey, overlay.links, view.scale);
+  }
+  if (detailed) {
+    drawNodes(ctx, nodes, overlay, highlight);
+  } else {
+    drawSummaries(ctx, summaries, overlay, view.scale);
+    drawGlyphs(ctx, nodes, overlay, highlight, view.scale);
+  }
 
   ctx.restore();
 }
 
+function visibleWorld(view: ViewState, width: number, height: number): Rect {
+  return {
+    minX: -view.offsetX / view.scale,
+    minY: -view.offsetY / view.scale,
+    maxX: (width - view.offsetX) / view.scale,
+    maxY: (height - view.offsetY) / view.scale,
+  };
+}
+
+/** Resizing clears the canvas and is slow, so it only happens when the size really changes. */
+function resizeCanvas(canvas: HTMLCanvasElement, width: number, height: number, devicePixelRatio: number) {
+  const pixelWidth = Math.round(width * devicePixelRatio);
+  const pixelHeight = Math.round(height * devicePixelRatio);
+  if (canvas.width !== pixelWidth) canvas.width = pixelWidth;
+  if (canvas.height !== pixelHeight) canvas.height = pixelHeight;
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+}
+
+/** Fits the whole layout into the minimap canvas, centred. */
+function minimapFrame(nodes: PositionedNode[]) {
+  if (!nodes.length) return null;
+  const bounds = layoutBounds(nodes);
+  const inset = 6;
+  const width = Math.max(1, bounds.maxX - bounds.minX);
+  const height = Math.max(1, bounds.maxY - bounds.minY);
+  const scale = Math.min((MINIMAP_WIDTH - 2 * inset) / width, (MINIMAP_HEIGHT - 2 * inset) / height);
+  return {
+    minX: bounds.minX,
+    minY: bounds.minY,
+    scale,
+    padX: (MINIMAP_WIDTH - width * scale) / 2,
+    padY: (MINIMAP_HEIGHT - height * scale) / 2,
+  };
+}
+
+function renderMinimapNodes(
+  ctx: CanvasRenderingContext2D,
+  nodes: PositionedNode[],
+  frame: MinimapFrame,
+  devicePixelRatio: number,
+  overlay: DiffOverlay | null,
+) {
+  ctx.setTransform(devicePixelRatio, 0, 0, devicePixelRatio, 0, 0);
+  const nodeWidth = Math.max(1, NODE_WIDTH * frame.scale);
+  const nodeHeight = Math.max(1, NODE_HEIGHT * frame.scale);
+  nodes.forEach((node) => {
+    const status = statusOf(node, overlay);
+    ctx.fillStyle = status ? DIFF_STATUS_COLORS[status] : "rgba(114,245,228,0.7)";
+    ctx.fillRect(
+      frame.padX + (node.x - NODE_WIDTH / 2 - frame.minX) * frame.scale,
+      frame.padY + (node.y - frame.minY) * frame.scale,
+      nodeWidth,
+      nodeHeight,
+    );
+  });
+}
+
+function renderMinimapViewport(
+  ctx: CanvasRenderingContext2D,
+  frame: MinimapFrame,
+  view: ViewState,
+  dimensions: { width: number; height: number },
+  devicePixelRatio: number,
+) {
+  ctx.setTransform(devicePixelRatio, 0, 0, devicePixelRatio, 0, 0);
+  const left = -view.offsetX / view.scale;
+  const top = -view.offsetY / view.scale;
+  ctx.strokeStyle = "rgba(255,255,255,0.85)";
+  ctx.lineWidth = 1;
+  ctx.strokeRect(
+    frame.padX + (left - frame.minX) * frame.scale,
+    frame.padY + (top - frame.minY) * frame.scale,
+    (dimensions.width / view.scale) * frame.scale,
+    (dimensions.height / view.scale) * frame.scale,
+  );
+}
+
 function drawBackground(ctx: CanvasRenderingContext2D, view: ViewState) {
   ctx.save();
   ctx.globalAlpha = 0.5;
@@ -378,30 +868,87 @@ function drawBackground(ctx: CanvasRenderingContext2D, view: ViewState) {
   ctx.restore();
 }
 
-function drawEdges(ctx: CanvasRenderingContext2D, nodes: PositionedNode[], scale: number) {
+/** Edges into `children`, stroked as one path; the glow is skipped when zoomed out. */
+function drawEdges(
+  ctx: CanvasRenderingContext2D,
+  layout: PositionedNode[],
+  children: PositionedNode[],
+  scale: number,
+  glow: boolean,
+) {
   ctx.save();
   ctx.strokeStyle = "rgba(114,245,228,0.4)";
   ctx.lineWidth = 2 / scale;
-  ctx.shadowColor = "rgba(114,245,228,0.25)";
-  ctx.shadowBlur = 10;
-  nodes.forEach((node) => {
+  if (glow) {
+    ctx.shadowColor = "rgba(114,245,228,0.25)";
+    ctx.shadowBlur = 10;
+  }
+  ctx.beginPath();
+  children.forEach((node) => {
     if (node.parentId === undefined) return;
-    const parent = nodes[node.parentId];
+    const parent = layout[node.parentId];
     const startX = parent.x;
     const startY = parent.y + NODE_HEIGHT;
     const endX = node.x;
     const endY = node.y;
     const cpOffset = Math.max(40, (endY - startY) * 0.45);
-    ctx.beginPath();
     ctx.moveTo(startX, startY);
     ctx.bezierCurveTo(startX, startY + cpOffset, endX, endY - cpOffset, endX, endY);
+  });
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawForestLabels(ctx: CanvasRenderingContext2D, sideLeft: AstSpatialIndex["sideLeft"]) {
+  ctx.save();
+  ctx.fillStyle = "rgba(255,255,255,0.55)";
+  ctx.font = "600 13px 'Geist Mono', 'Space Mono', monospace";
+  ctx.textAlign = "left";
+  (["reference", "submission"] as const).forEach((side) => {
+    const left = sideLeft[side];
+    if (left === undefined) return;
+    ctx.fillText(side === "reference" ? "REFERENCE" : "SUBMISSION", left, -28);
+  });
+  ctx.restore();
+}
+
+function drawDiffLinks(
+  ctx: CanvasRenderingContext2D,
+  byKey: ReadonlyMap<string, PositionedNode>,
+  links: [string, string][],
+  scale: number,
+) {
+  ctx.save();
+  ctx.lineWidth = 1.5 / scale;
+  ctx.setLineDash([8 / scale, 6 / scale]);
+  links.forEach(([from, to], index) => {
+    const start = byKey.get(from);
+    const end = byKey.get(to);
+    // one end is folded away
+    if (!start || !end) return;
+    const startX = start.x + NODE_WIDTH / 2;
+    const startY = start.y + NODE_HEIGHT / 2;
+    const endX = end.x - NODE_WIDTH / 2;
+    const endY = end.y + NODE_HEIGHT / 2;
+    // arch above the trees so links stay readable where they cross other nodes
+    const lift = Math.min(240, Math.abs(endX - startX) * 0.25);
+    ctx.strokeStyle = MATCH_COLORS[index % MATCH_COLORS.length];
+    ctx.beginPath();
+    ctx.moveTo(startX, startY);
+    ctx.bezierCurveTo(startX + lift, startY - lift, endX - lift, endY - lift, endX, endY);
     ctx.stroke();
   });
   ctx.restore();
 }
 
-function drawNodes(ctx: CanvasRenderingContext2D, nodes: PositionedNode[]) {
+function drawNodes(
+  ctx: CanvasRenderingContext2D,
+  nodes: PositionedNode[],
+  overlay: DiffOverlay | null,
+  highlight: SearchHighlight,
+) {
   nodes.forEach((node) => {
+    const status = statusOf(node, overlay);
     const x = node.x - NODE_WIDTH / 2;
     const y = node.y;
     const radius = 14;
@@ -411,7 +958,8 @@ function drawNodes(ctx: CanvasRenderingContext2D, nodes: PositionedNode[]) {
     ctx.fillStyle = "rgba(6,12,30,0.92)";
     roundRect(ctx, x, y, NODE_WIDTH, NODE_HEIGHT, radius);
     ctx.fill();
-    ctx.strokeStyle = "rgba(255,255,255,0.08)";
+    ctx.strokeStyle = status ? DIFF_STATUS_COLORS[status] : "rgba(255,255,255,0.08)";
+    ctx.lineWidth = status && status !== "matched" ? 2.5 : 1;
     ctx.stroke();
 
     ctx.shadowBlur = 0;
@@ -420,7 +968,7 @@ function drawNodes(ctx: CanvasRenderingContext2D, nodes: PositionedNode[]) {
     ctx.textAlign = "center";
     ctx.fillText(`d${node.depth}`, node.x, y + 16);
 
-    ctx.fillStyle = "#72f5e4";
+    ctx.fillStyle = status ? DIFF_STATUS_COLORS[status] : "#72f5e4";
     ctx.font = "600 14px 'Geist', 'Inter', sans-serif";
     ctx.fillText(node.type, node.x, y + 34);
 
@@ -430,10 +978,97 @@ function drawNodes(ctx: CanvasRenderingContext2D, nodes: PositionedNode[]) {
       const truncated = node.value.length > 28 ? `${node.value.slice(0, 28)}…` : node.value;
       ctx.fillText(truncated, node.x, y + 52);
     }
+
+    if (highlight.hits.has(node.key)) {
+      const current = highlight.current === node.key;
+      ctx.strokeStyle = current ? "#fde047" : "rgba(253,224,71,0.45)";
+      ctx.lineWidth = current ? 4 : 2;
+      roundRect(ctx, x - 5, y - 5, NODE_WIDTH + 10, NODE_HEIGHT + 10, radius + 4);
+      ctx.stroke();
+    }
+
+    if (node.childCount) {
+      // fold marker; collapsed nodes also say how much they hide
+      ctx.fillStyle = "rgba(255,255,255,0.55)";
+      ctx.font = "600 12px 'Geist Mono', 'Space Mono', monospace";
+      ctx.textAlign = "right";
+      ctx.fillText(node.hiddenCount ? "+" : "−", x + NODE_WIDTH - 10, y + 16);
+    }
+    if (node.hiddenCount) {
+      const label = `+${node.hiddenCount}`;
+      ctx.font = "600 11px 'Geist Mono', 'Space Mono', monospace";
+      const width = ctx.measureText(label).width + 14;
+      ctx.fillStyle = "rgba(114,245,228,0.18)";
+      roundRect(ctx, node.x - width / 2, y + NODE_HEIGHT + 6, width, 18, 9);
+      ctx.fill();
+      ctx.fillStyle = "#72f5e4";
+      ctx.textAlign = "center";
+      ctx.fillText(label, node.x, y + NODE_HEIGHT + 19);
+    }
     ctx.restore();
   });
 }
 
+/** Zoomed-out cards: plain boxes in their status colour, since labels would be unreadable. */
+function drawGlyphs(
+  ctx: CanvasRenderingContext2D,
+  nodes: PositionedNode[],
+  overlay: DiffOverlay | null,
+  highlight: SearchHighlight,
+  scale: number,
+) {
+  ctx.save();
+  ctx.globalAlpha = 0.8;
+  nodes.forEach((node) => {
+    const status = statusOf(node, overlay);
+    ctx.fillStyle = status ? DIFF_STATUS_COLORS[status] : "#72f5e4";
+    ctx.fillRect(node.x - NODE_WIDTH / 2, node.y, NODE_WIDTH, NODE_HEIGHT);
+  });
+  ctx.globalAlpha = 1;
+  ctx.lineWidth = 3 / scale;
+  const inset = 6 / scale;
+  nodes.forEach((node) => {
+    if (!highlight.hits.has(node.key)) return;
+    ctx.strokeStyle = highlight.current === node.key ? "#fde047" : "rgba(253,224,71,0.45)";
+    ctx.strokeRect(node.x - NODE_WIDTH / 2 - inset, node.y - inset, NODE_WIDTH + 2 * inset, NODE_HEIGHT + 2 * inset);
+  });
+  ctx.restore();
+}
+
+/** A wedge from the subtree root down across everything below it; big ones are labelled with their size. */
+function drawSummaries(
+  ctx: CanvasRenderingContext2D,
+  summaries: SubtreeSummary[],
+  overlay: DiffOverlay | null,
+  scale: number,
+) {
+  ctx.save();
+  ctx.lineWidth = 1 / scale;
+  ctx.font = `600 ${11 / scale}px 'Geist Mono', 'Space Mono', monospace`;
+  ctx.textAlign = "center";
+  summaries.forEach(({ root, bounds, count }) => {
+    const status = statusOf(root, overlay);
+    const color = status ? DIFF_STATUS_COLORS[status] : "#72f5e4";
+    ctx.beginPath();
+    ctx.moveTo(root.x, root.y);
+    ctx.lineTo(bounds.maxX, bounds.maxY);
+    ctx.lineTo(bounds.minX, bounds.maxY);
+    ctx.closePath();
+    ctx.globalAlpha = 0.3;
+    ctx.fillStyle = color;
+    ctx.fill();
+    ctx.globalAlpha = 0.9;
+    ctx.strokeStyle = color;
+    ctx.stroke();
+    if (count >= SUMMARY_LABEL_COUNT) {
+      ctx.globalAlpha = 1;
+      ctx.fillStyle = "rgba(255,255,255,0.8)";
+      ctx.fillText(String(count), (bounds.minX + bounds.maxX) / 2, bounds.maxY + 14 / scale);
+    }
+  });
+  ctx.restore();
+}
+
 function roundRect(
   ctx: CanvasRenderingContext2D,
   x: number,
@@ -455,6 +1090,14 @@ function roundRect(
   ctx.closePath();
 }
 
+function countStatuses(statuses: AstDiffStatus[]) {
+  const counts: Record<AstDiffStatus, number> = { matched: 0, relabeled: 0, inserted: 0, deleted: 0 };
+  statuses.forEach((status) => {
+    counts[status] += 1;
+  });
+  return counts;
+}
+
 function clamp(value: number, min: number, max: number) {
   return Math.min(max, Math.max(min, value));
 }
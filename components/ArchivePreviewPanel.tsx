@@ -0,0 +1,108 @@
+"use client";
+
+import { useMemo } from "react";
+import { motion } from "framer-motion";
+import type { ArchivePreview, SkippedArchiveEntry, SubmissionFilename } from "@/lib/archiveIngest";
+
+interface ArchivePreviewPanelProps {
+  preview: ArchivePreview;
+  /** Names the submissions will be uploaded under, parallel to `preview.submissions`. */
+  filenames: SubmissionFilename[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const skipReasonLabels: Record<SkippedArchiveEntry["reason"], string> = {
+  metadata: "macOS metadata",
+  hidden: "hidden",
+  unsupported: "not source code",
+  "too-large": "too large",
+  empty: "empty",
+};
+
+export function ArchivePreviewPanel({ preview, filenames, onConfirm, onCancel }: ArchivePreviewPanelProps) {
+  const skippedByReason = useMemo(() => {
+    const counts = new Map<SkippedArchiveEntry["reason"], number>();
+    preview.skipped.forEach((entry) => counts.set(entry.reason, (counts.get(entry.reason) ?? 0) + 1));
+    return [...counts.entries()];
+  }, [preview.skipped]);
+  const count = preview.submissions.length;
+  const renamedCount = filenames.filter((entry) => entry.renamed).length;
+
+  return (
+    <motion.div
+      className="glass-panel space-y-4 rounded-3xl border border-cyan-400/30 bg-white/5 p-5"
+      initial={{ opacity: 0, y: -6 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="min-w-0">
+          <p className="text-xs uppercase tracking-[0.4em] text-white/60">Archive preview</p>
+          <p className="truncate text-sm text-white/60">
+            {preview.archiveName}: {count} submission{count === 1 ? "" : "s"} found
+          </p>
+        </div>
+        <div className="ml-auto flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-full border border-white/10 px-3 py-1 text-xs font-semibold text-white/70 transition hover:border-white/40 hover:text-white"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            disabled={!count}
+            className="rounded-full border border-cyan-300/50 px-3 py-1 text-xs font-semibold text-cyan-100 transition hover:bg-cyan-400/10 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Add {count} submission{count === 1 ? "" : "s"}
+          </button>
+        </div>
+      </div>
+      <div className="max-h-52 overflow-y-auto rounded-2xl border border-white/10 bg-black/30">
+        {count ? (
+          <ul className="divide-y divide-white/5">
+            {preview.submissions.map((submission, index) => (
+              <li key={submission.id} className="flex items-center gap-3 px-4 py-2 text-sm text-white/80">
+                <span className="flex-1 truncate" title={submission.files.join("\n")}>
+                  {submission.id}
+                  {filenames[index]?.renamed && (
+                    <span className="ml-2 text-xs text-amber-200/80">→ {filenames[index].filename}</span>
+                  )}
+                </span>
+                <span className="text-xs text-white/50">
+                  {submission.files.length} file{submission.files.length === 1 ? "" : "s"} ·{" "}
+                  {submission.code.split("\n").length} lines
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="px-4 py-8 text-sm text-white/50">No source files were found in this archive.</div>
+        )}
+      </div>
+      {renamedCount > 0 && (
+        <p className="text-xs text-amber-200/80">
+          {renamedCount} submission{renamedCount === 1 ? " has" : "s have"} the same name as a file already uploaded and
+          will be added as a numbered copy.
+        </p>
+      )}
+      {preview.skipped.length > 0 && (
+        <details className="text-xs text-white/50">
+          <summary className="cursor-pointer">
+            Skipped {preview.skipped.length} entr{preview.skipped.length === 1 ? "y" : "ies"} (
+            {skippedByReason.map(([reason, total]) => `${total} ${skipReasonLabels[reason]}`).join(", ")})
+          </summary>
+          <ul className="mt-2 max-h-32 space-y-1 overflow-y-auto pl-4">
+            {preview.skipped.map((entry) => (
+              <li key={entry.path} className="truncate">
+                {entry.path} — {skipReasonLabels[entry.reason]}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </motion.div>
+  );
+}
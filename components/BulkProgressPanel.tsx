@@ -0,0 +1,102 @@
+"use client";
+
+import { useMemo } from "react";
+import { motion } from "framer-motion";
+import { Progress } from "@/components/ui/progress";
+
+export type BulkFileStatus = "queued" | "running" | "done" | "cached" | "failed";
+
+export type BulkProgressEntry = {
+  id: string;
+  status: BulkFileStatus;
+  similarityPercent?: number;
+  error?: string;
+};
+
+interface BulkProgressPanelProps {
+  entries: BulkProgressEntry[];
+  isRunning: boolean;
+  selectedId?: string | null;
+  onSelect?: (id: string) => void;
+}
+
+const statusMeta: Record<BulkFileStatus, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "bg-white/10 text-white/60" },
+  running: { label: "Analyzing", className: "animate-pulse bg-cyan-500/20 text-cyan-100" },
+  done: { label: "Done", className: "bg-emerald-500/15 text-emerald-200" },
+  cached: { label: "Cached", className: "bg-violet-500/20 text-violet-100" },
+  failed: { label: "Failed", className: "bg-rose-500/20 text-rose-100" },
+};
+
+// Finished files rank by similarity; in-flight and queued files trail in upload order.
+const statusRank: Record<BulkFileStatus, number> = { done: 0, cached: 0, failed: 1, running: 2, queued: 3 };
+
+export function BulkProgressPanel({ entries, isRunning, selectedId, onSelect }: BulkProgressPanelProps) {
+  const ranked = useMemo(
+    () =>
+      entries
+        .map((entry, index) => ({ entry, index }))
+        .sort(
+          (a, b) =>
+            statusRank[a.entry.status] - statusRank[b.entry.status] ||
+            (b.entry.similarityPercent ?? -1) - (a.entry.similarityPercent ?? -1) ||
+            a.index - b.index,
+        )
+        .map(({ entry }) => entry),
+    [entries],
+  );
+  const finished = entries.filter((entry) => statusRank[entry.status] <= 1).length;
+  const cached = entries.filter((entry) => entry.status === "cached").length;
+  const failed = entries.filter((entry) => entry.status === "failed").length;
+  const percent = entries.length ? (finished / entries.length) * 100 : 0;
+
+  return (
+    <motion.div
+      layout
+      className="glass-panel space-y-4 rounded-3xl border border-white/10 bg-white/5 p-5"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex flex-wrap items-center gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.4em] text-white/60">{isRunning ? "Analyzing batch" : "Batch complete"}</p>
+          <p className="text-sm text-white/60">
+            {finished} of {entries.length} analyzed
+            {cached > 0 && ` · ${cached} from cache`}
+            {failed > 0 && ` · ${failed} failed`}
+          </p>
+        </div>
+        <span className="ml-auto text-sm font-semibold text-cyan-100">{Math.round(percent)}%</span>
+      </div>
+      <Progress value={percent} className="bg-white/10" indicatorClassName="bg-gradient-to-r from-cyan-400 to-violet-500" />
+      <ul className="max-h-64 divide-y divide-white/5 overflow-y-auto rounded-2xl border border-white/10 bg-black/30">
+        {ranked.map((entry) => {
+          const selectable = Boolean(onSelect) && (entry.status === "done" || entry.status === "cached");
+          return (
+            <li key={entry.id}>
+              <button
+                type="button"
+                disabled={!selectable}
+                onClick={() => onSelect?.(entry.id)}
+                title={entry.error}
+                className={`flex w-full items-center gap-3 px-4 py-2 text-left text-sm text-white/80 transition ${selectable ? "hover:bg-white/5" : "cursor-default"} ${selectedId === entry.id ? "bg-white/10" : ""}`}
+              >
+                <span className={`rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.2em] ${statusMeta[entry.status].className}`}>
+                  {statusMeta[entry.status].label}
+                </span>
+                <span className="flex-1 truncate">{entry.id}</span>
+                {entry.status === "failed" ? (
+                  <span className="max-w-[45%] truncate text-xs text-rose-200/80">{entry.error}</span>
+                ) : (
+                  entry.similarityPercent !== undefined && (
+                    <span className="text-xs font-semibold text-white/70">{Math.round(entry.similarityPercent)}%</span>
+                  )
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </motion.div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { DiffEditor } from "@monaco-editor/react";
+import type { editor as MonacoEditor } from "monaco-editor";
+import { useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
+import { motion } from "framer-motion";
+import { Badge } from "@/components/ui/badge";
+import { highlightDecorations, type EditorHighlight } from "@/components/CodeEditorWrapper";
+
+interface CodeDiffWrapperProps {
+  label: string;
+  original: string;
+  modified: string;
+  originalHighlights?: EditorHighlight[];
+  modifiedHighlights?: EditorHighlight[];
+  language?: string;
+  sideBySide?: boolean;
+  className?: string;
+  style?: CSSProperties;
+}
+
+const diffOptions: MonacoEditor.IDiffEditorConstructionOptions = {
+  minimap: { enabled: false },
+  fontSize: 14,
+  smoothScrolling: true,
+  automaticLayout: true,
+  scrollBeyondLastLine: false,
+  wordWrap: "on",
+  readOnly: true,
+  originalEditable: false,
+  ignoreTrimWhitespace: true,
+  renderOverviewRuler: true,
+  // the toggle decides the layout, not the panel width
+  useInlineViewWhenSpaceIsLimited: false,
+};
+
+export function CodeDiffWrapper({
+  label,
+  original,
+  modified,
+  originalHighlights = [],
+  modifiedHighlights = [],
+  language = "typescript",
+  sideBySide = true,
+  className,
+  style,
+}: CodeDiffWrapperProps) {
+  const [diffEditor, setDiffEditor] = useState<MonacoEditor.IStandaloneDiffEditor | null>(null);
+  const originalIds = useRef<string[]>([]);
+  const modifiedIds = useRef<string[]>([]);
+
+  const originalDecorations = useMemo(() => highlightDecorations(originalHighlights), [originalHighlights]);
+  const modifiedDecorations = useMemo(() => highlightDecorations(modifiedHighlights), [modifiedHighlights]);
+
+  // Decorations are re-applied when the text changes because the diff editor swaps its models.
+  useEffect(() => {
+    if (!diffEditor) return;
+    originalIds.current = diffEditor.getOriginalEditor().deltaDecorations(originalIds.current, originalDecorations);
+  }, [diffEditor, originalDecorations, original]);
+
+  useEffect(() => {
+    if (!diffEditor) return;
+    modifiedIds.current = diffEditor.getModifiedEditor().deltaDecorations(modifiedIds.current, modifiedDecorations);
+  }, [diffEditor, modifiedDecorations, modified]);
+
+  return (
+    <motion.div
+      layout
+      className={`glass-panel relative flex h-full flex-col overflow-hidden rounded-2xl ${className ?? ""}`.trim()}
+      style={style}
+    >
+      <div className="flex items-center justify-between border-b border-white/5 px-5 py-3 text-xs uppercase tracking-[0.3em] text-white/70">
+        <div className="flex items-center gap-3">
+          <span className="h-2 w-2 rounded-full bg-cyan-400" />
+          {label}
+        </div>
+        <Badge variant="outline" className="border-white/20 text-white/70">
+          Monaco diff
+        </Badge>
+      </div>
+      <div className="flex-1">
+        <DiffEditor
+          height="100%"
+          language={language}
+          theme="vs-dark"
+          original={original}
+          modified={modified}
+          onMount={setDiffEditor}
+          options={{ ...diffOptions, renderSideBySide: sideBySide }}
+        />
+      </div>
+    </motion.div>
+  );
+}
@@ -1,8 +1,8 @@
 "use client";
 
-import { Editor } from "@monaco-editor/react";
+import { Editor, type Monaco } from "@monaco-editor/react";
 import type { editor as MonacoEditor } from "monaco-editor";
-import { useEffect, useMemo, useRef, type CSSProperties } from "react";
+import { useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
 import { motion } from "framer-motion";
 import { Badge } from "@/components/ui/badge";
 
@@ -11,8 +11,19 @@ export type EditorHighlight = {
   startLine: number;
   endLine: number;
   color?: string;
+  tone?: number;
+  hoverMessage?: string;
 };
 
+/** Scrolls a range into the middle of the editor and flashes it; a new `nonce` repeats the flash. */
+export type EditorFocusRange = {
+  startLine: number;
+  endLine: number;
+  nonce: number;
+};
+
+const FLASH_DURATION_MS = 1200;
+
 interface CodeEditorWrapperProps {
   label: string;
   code: string;
@@ -23,6 +34,13 @@ interface CodeEditorWrapperProps {
   onReady?: (instance: MonacoEditor.IStandaloneCodeEditor) => void;
   onScroll?: (scrollTop: number) => void;
   externalScrollTop?: number;
+  /** Reports the fractional line at the vertical centre of the viewport when the user scrolls. */
+  onScrollLine?: (line: number) => void;
+  /** Centres the viewport on this fractional line without echoing it back through `onScrollLine`. */
+  externalScrollLine?: number;
+  /** Called with the highlight under the cursor when a highlighted line is clicked. */
+  onHighlightClick?: (highlight: EditorHighlight) => void;
+  focusRange?: EditorFocusRange | null;
   className?: string;
   style?: CSSProperties;
 }
@@ -39,6 +57,51 @@ const defaultOptions: MonacoEditor.IStandaloneEditorConstructionOptions = {
   formatOnType: true,
 };
 
+/** Monaco decorations for highlighted line ranges; shared with the diff view. */
+export function highlightDecorations(highlights: EditorHighlight[]): MonacoEditor.IModelDeltaDecoration[] {
+  return highlights.map((highlight, index) => ({
+    range: {
+      startLineNumber: highlight.startLine,
+      startColumn: 1,
+      endLineNumber: highlight.endLine,
+      endColumn: 1,
+    },
+    options: {
+      isWholeLine: true,
+      className:
+        highlight.tone === undefined ? "monaco-line-highlight" : `monaco-match-tone-${highlight.tone}`,
+      inlineClassName: "monaco-inline-highlight",
+      beforeContentClassName:
+        highlight.tone === undefined ? "monaco-line-gutter" : `monaco-match-gutter-${highlight.tone}`,
+      stickiness: 1,
+      overviewRuler: {
+        color: highlight.color ?? "rgba(45,255,196,0.6)",
+        position: 7,
+      },
+      hoverMessage: highlight.hoverMessage
+        ? [{ value: highlight.hoverMessage }]
+        : highlight.id
+          ? [{ value: `Similarity cluster ${highlight.id}` }]
+          : undefined,
+      zIndex: 5 + index,
+    },
+  }));
+}
+
+function centreLine(instance: MonacoEditor.IStandaloneCodeEditor) {
+  const centre = instance.getScrollTop() + instance.getLayoutInfo().height / 2;
+  const lineCount = instance.getModel()?.getLineCount() ?? 1;
+  const ranges = instance.getVisibleRanges();
+  const first = ranges[0]?.startLineNumber ?? 1;
+  const last = Math.min(lineCount, ranges[ranges.length - 1]?.endLineNumber ?? lineCount);
+  for (let line = first; line <= last; line += 1) {
+    const top = instance.getTopForLineNumber(line);
+    const next = line < lineCount ? instance.getTopForLineNumber(line + 1) : instance.getContentHeight();
+    if (centre < next) return line + Math.max(0, centre - top) / Math.max(1, next - top);
+  }
+  return last + 1;
+}
+
 export function CodeEditorWrapper({
   label,
   code,
@@ -49,39 +112,21 @@ export function CodeEditorWrapper({
   onReady,
   onScroll,
   externalScrollTop,
+  onScrollLine,
+  externalScrollLine,
+  onHighlightClick,
+  focusRange,
   className,
   style,
 }: CodeEditorWrapperProps) {
   const editorRef = useRef<MonacoEditor.IStandaloneCodeEditor | null>(null);
   const decorationIds = useRef<string[]>([]);
+  const monacoRef = useRef<Monaco | null>(null);
+  const applyingScroll = useRef(false);
+  // effects below need a re-run once Monaco has mounted, which happens after the first commit
+  const [isMounted, setIsMounted] = useState(false);
 
-  const decorations = useMemo(
-    () =>
-      highlights.map((highlight, index) => ({
-        range: {
-          startLineNumber: highlight.startLine,
-          startColumn: 1,
-          endLineNumber: highlight.endLine,
-          endColumn: 1,
-        },
-        options: {
-          isWholeLine: true,
-          className: "monaco-line-highlight",
-          inlineClassName: "monaco-inline-highlight",
-          beforeContentClassName: "monaco-line-gutter",
-          stickiness: 1,
-          overviewRuler: {
-            color: highlight.color ?? "rgba(45,255,196,0.6)",
-            position: 7,
-          },
-          hoverMessage: highlight.id
-            ? [{ value: `Similarity cluster ${highlight.id}` }]
-            : undefined,
-          zIndex: 5 + index,
-        },
-      })),
-    [highlights],
-  );
+  const decorations = useMemo(() => highlightDecorations(highlights), [highlights]);
 
   useEffect(() => {
     if (!editorRef.current) return;
@@ -89,7 +134,7 @@ export function CodeEditorWrapper({
       decorationIds.current,
       decorations,
     );
-  }, [decorations]);
+  }, [decorations, isMounted]);
 
   useEffect(() => {
     if (!editorRef.current || !onScroll) return;
@@ -97,7 +142,7 @@ export function CodeEditorWrapper({
       onScroll(evt.scrollTop);
     });
     return () => disposable.dispose();
-  }, [onScroll]);
+  }, [onScroll, isMounted]);
 
   useEffect(() => {
     if (
@@ -109,8 +154,68 @@ export function CodeEditorWrapper({
     }
   }, [externalScrollTop]);
 
-  const handleMount = (instance: MonacoEditor.IStandaloneCodeEditor) => {
+  useEffect(() => {
+    if (!editorRef.current || !onScrollLine) return;
+    const instance = editorRef.current;
+    const disposable = instance.onDidScrollChange((evt) => {
+      if (!evt.scrollTopChanged || applyingScroll.current) return;
+      onScrollLine(centreLine(instance));
+    });
+    return () => disposable.dispose();
+  }, [onScrollLine, isMounted]);
+
+  useEffect(() => {
+    if (!editorRef.current || typeof externalScrollLine !== "number") return;
+    const instance = editorRef.current;
+    // never move the editor the user is typing in
+    if (instance.hasTextFocus()) return;
+    const lineCount = instance.getModel()?.getLineCount() ?? 1;
+    const line = Math.min(Math.max(1, Math.floor(externalScrollLine)), lineCount);
+    const top = instance.getTopForLineNumber(line);
+    const height = (line < lineCount ? instance.getTopForLineNumber(line + 1) : instance.getContentHeight()) - top;
+    const target = top + (externalScrollLine - line) * height - instance.getLayoutInfo().height / 2;
+    applyingScroll.current = true;
+    instance.setScrollTop(Math.max(0, target), monacoRef.current?.editor.ScrollType.Immediate);
+    applyingScroll.current = false;
+  }, [externalScrollLine, isMounted]);
+
+  useEffect(() => {
+    if (!editorRef.current || !onHighlightClick) return;
+    const disposable = editorRef.current.onMouseDown((evt) => {
+      const line = evt.target.position?.lineNumber;
+      if (!line) return;
+      // nested highlights: the narrowest range under the cursor wins
+      const hit = highlights
+        .filter((highlight) => line >= highlight.startLine && line <= highlight.endLine)
+        .sort((a, b) => a.endLine - a.startLine - (b.endLine - b.startLine))[0];
+      if (hit) onHighlightClick(hit);
+    });
+    return () => disposable.dispose();
+  }, [onHighlightClick, highlights, isMounted]);
+
+  useEffect(() => {
+    if (!editorRef.current || !focusRange) return;
+    const instance = editorRef.current;
+    applyingScroll.current = true;
+    instance.revealLinesInCenter(focusRange.startLine, focusRange.endLine, monacoRef.current?.editor.ScrollType.Immediate);
+    applyingScroll.current = false;
+    const flash = instance.createDecorationsCollection([
+      {
+        range: { startLineNumber: focusRange.startLine, startColumn: 1, endLineNumber: focusRange.endLine, endColumn: 1 },
+        options: { isWholeLine: true, className: "monaco-match-flash" },
+      },
+    ]);
+    const timer = window.setTimeout(() => flash.clear(), FLASH_DURATION_MS);
+    return () => {
+      window.clearTimeout(timer);
+      flash.clear();
+    };
+  }, [focusRange, isMounted]);
+
+  const handleMount = (instance: MonacoEditor.IStandaloneCodeEditor, monaco: Monaco) => {
     editorRef.current = instance;
+    monacoRef.current = monaco;
+    setIsMounted(true);
     onReady?.(instance);
   };
 
@@ -132,7 +237,7 @@ export function CodeEditorWrapper({
       <div className="flex-1">
         <Editor
           height="100%"
-          defaultLanguage={language}
+          language={language}
           theme="vs-dark"
           value={code}
           onChange={(value) => setCode?.(value ?? "")}
@@ -1 +1,51 @@
-export {};
+"use client";
+
+const HEAT_STOPS: { at: number; rgb: [number, number, number] }[] = [
+  { at: 0, rgb: [15, 23, 42] },
+  { at: 40, rgb: [16, 185, 129] },
+  { at: 60, rgb: [245, 158, 11] },
+  { at: 75, rgb: [244, 63, 94] },
+  { at: 100, rgb: [255, 228, 230] },
+];
+
+const LEGEND_TICKS = [
+  { at: 0, label: "0%" },
+  { at: 40, label: "40% medium" },
+  { at: 75, label: "75% high" },
+  { at: 100, label: "100%" },
+];
+
+export function heatmapColor(percent: number) {
+  const value = Math.max(0, Math.min(100, Number.isFinite(percent) ? percent : 0));
+  const upperIndex = HEAT_STOPS.findIndex((stop) => stop.at >= value);
+  const upper = HEAT_STOPS[Math.max(upperIndex, 1)];
+  const lower = HEAT_STOPS[Math.max(upperIndex, 1) - 1];
+  const ratio = (value - lower.at) / (upper.at - lower.at || 1);
+  const [r, g, b] = lower.rgb.map((channel, index) => Math.round(channel + (upper.rgb[index] - channel) * ratio));
+  return `rgb(${r},${g},${b})`;
+}
+
+interface HeatmapLegendProps {
+  className?: string;
+}
+
+export function HeatmapLegend({ className }: HeatmapLegendProps) {
+  const gradient = HEAT_STOPS.map((stop) => `${heatmapColor(stop.at)} ${stop.at}%`).join(", ");
+  return (
+    <div className={`space-y-2 ${className ?? ""}`.trim()}>
+      <p className="text-[10px] uppercase tracking-[0.5em] text-white/50">Pair similarity</p>
+      <div className="h-2 w-full rounded-full" style={{ background: `linear-gradient(90deg, ${gradient})` }} />
+      <div className="relative h-3 text-[10px] text-white/50">
+        {LEGEND_TICKS.map((tick) => (
+          <span
+            key={tick.at}
+            className="absolute whitespace-nowrap"
+            style={{ left: `${tick.at}%`, transform: `translateX(-${tick.at}%)` }}
+          >
+            {tick.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { AnimatePresence, motion } from "framer-motion";
+import type { HistorySummary } from "@/lib/analysisHistory";
+import { LANGUAGES } from "@/lib/languages";
+
+interface HistoryDrawerProps {
+  open: boolean;
+  entries: HistorySummary[];
+  error?: string | null;
+  onClose: () => void;
+  onRestore: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}
+
+export function HistoryDrawer({ open, entries, error, onClose, onRestore, onDelete, onClear }: HistoryDrawerProps) {
+  return (
+    <AnimatePresence>
+      {open && (
+        <>
+          <motion.div
+            key="history-backdrop"
+            className="fixed inset-0 z-40 bg-black/50"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+          <motion.aside
+            key="history-drawer"
+            className="fixed inset-y-0 right-0 z-50 flex w-full max-w-md flex-col gap-4 border-l border-white/10 bg-slate-950/95 p-6 shadow-2xl"
+            initial={{ x: "100%" }}
+            animate={{ x: 0 }}
+            exit={{ x: "100%" }}
+            transition={{ type: "spring", damping: 30, stiffness: 260 }}
+            aria-label="Analysis history"
+          >
+            <div className="flex items-center gap-3">
+              <div>
+                <p className="text-xs uppercase tracking-[0.4em] text-white/60">History</p>
+                <p className="text-sm text-white/60">
+                  {entries.length} recent analys{entries.length === 1 ? "is" : "es"} stored in this browser
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={onClose}
+                className="ml-auto rounded-full border border-white/10 px-3 py-1 text-xs font-semibold text-white/70 transition hover:border-white/40 hover:text-white"
+              >
+                Close
+              </button>
+            </div>
+            {error && <p className="text-xs text-rose-200">{error}</p>}
+            <ul className="flex-1 space-y-3 overflow-y-auto pr-1">
+              {entries.map((entry) => (
+                <li key={entry.id} className="rounded-2xl border border-white/10 bg-white/5 p-4 text-sm text-white/80">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-white">{new Date(entry.savedAt).toLocaleString()}</span>
+                    <span className="ml-auto rounded-full bg-white/10 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.2em] text-white/60">
+                      {LANGUAGES[entry.language]?.label ?? entry.language}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-xs text-white/60">
+                    {entry.mode === "bulk" ? `Bulk · ${entry.submissions} submissions` : "Side-by-side"} · top score{" "}
+                    {entry.topScore === null ? "--" : `${Math.round(entry.topScore * 100)}%`}
+                  </p>
+                  <p className="mt-1 font-mono text-[11px] text-white/40" title={`${entry.hashes.reference}\n${entry.hashes.submissions}`}>
+                    ref {entry.hashes.reference.slice(0, 10)} · {entry.mode === "bulk" ? "set" : "sub"} {entry.hashes.submissions.slice(0, 10)}
+                  </p>
+                  <div className="mt-3 flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => onRestore(entry.id)}
+                      className="rounded-full border border-cyan-300/50 px-3 py-1 text-xs font-semibold text-cyan-100 transition hover:bg-cyan-400/10"
+                    >
+                      Open
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(entry.id)}
+                      className="rounded-full border border-white/5 px-3 py-1 text-xs text-white/70 transition hover:border-rose-400/60 hover:text-rose-200"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+              {!entries.length && (
+                <li className="rounded-2xl border border-dashed border-white/10 px-4 py-10 text-center text-sm text-white/50">
+                  Finished analyses will appear here.
+                </li>
+              )}
+            </ul>
+            {entries.length > 0 && (
+              <button
+                type="button"
+                onClick={onClear}
+                className="self-start rounded-full border border-white/10 px-3 py-1 text-xs font-semibold text-white/60 transition hover:border-rose-400/60 hover:text-rose-200"
+              >
+                Clear history
+              </button>
+            )}
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
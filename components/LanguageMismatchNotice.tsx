@@ -0,0 +1,58 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { describeLanguageConflicts, type LanguageConflict } from "@/lib/languageDetection";
+import { LANGUAGES, type LanguageId } from "@/lib/languages";
+
+interface LanguageMismatchNoticeProps {
+  language: LanguageId;
+  conflicts: LanguageConflict[];
+  /** Language every conflicting source agrees on, offered as a one-click switch. */
+  suggested?: LanguageId | null;
+  onSwitch: (language: LanguageId) => void;
+  /** Bulk mode only: lets the batch run with mixed languages. */
+  allowMixed?: boolean;
+  onAllowMixedChange?: (allow: boolean) => void;
+}
+
+export function LanguageMismatchNotice({
+  language,
+  conflicts,
+  suggested,
+  onSwitch,
+  allowMixed,
+  onAllowMixedChange,
+}: LanguageMismatchNoticeProps) {
+  return (
+    <motion.div
+      className="flex flex-wrap items-center gap-3 rounded-3xl border border-amber-300/30 bg-amber-400/10 px-5 py-3 text-sm text-amber-100"
+      initial={{ opacity: 0, y: -6 }}
+      animate={{ opacity: 1, y: 0 }}
+      role="status"
+    >
+      <span className="flex-1">
+        {describeLanguageConflicts(language, conflicts)} Scores are only meaningful when every source is {LANGUAGES[language].label}.
+      </span>
+      {suggested && suggested !== language && (
+        <button
+          type="button"
+          onClick={() => onSwitch(suggested)}
+          className="rounded-full border border-amber-200/50 px-3 py-1 text-xs font-semibold text-amber-50 transition hover:bg-amber-300/10"
+        >
+          Switch to {LANGUAGES[suggested].label}
+        </button>
+      )}
+      {onAllowMixedChange && (
+        <label className="flex items-center gap-2 text-xs text-amber-100/80">
+          <input
+            type="checkbox"
+            checked={Boolean(allowMixed)}
+            onChange={(event) => onAllowMixedChange(event.target.checked)}
+            className="accent-amber-300"
+          />
+          Analyze mixed languages anyway
+        </label>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { useEffect, useRef, type KeyboardEvent } from "react";
+import { describeMatch, type MatchedRegion } from "@/lib/matchedRegions";
+
+interface MatchNavigatorProps {
+  matches: MatchedRegion[];
+  activeIndex: number | null;
+  onSelect: (index: number) => void;
+}
+
+const NEXT_KEYS = new Set(["ArrowDown", "j", "n"]);
+const PREVIOUS_KEYS = new Set(["ArrowUp", "k", "p"]);
+
+export function MatchNavigator({ matches, activeIndex, onSelect }: MatchNavigatorProps) {
+  const listRef = useRef<HTMLOListElement | null>(null);
+
+  useEffect(() => {
+    if (activeIndex === null) return;
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  if (!matches.length) return null;
+
+  const step = (delta: number) => {
+    const from = activeIndex ?? (delta > 0 ? -1 : 0);
+    onSelect((from + delta + matches.length) % matches.length);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.altKey || event.ctrlKey || event.metaKey) return;
+    if (NEXT_KEYS.has(event.key)) step(1);
+    else if (PREVIOUS_KEYS.has(event.key)) step(-1);
+    else if (event.key === "Home") onSelect(0);
+    else if (event.key === "End") onSelect(matches.length - 1);
+    else return;
+    event.preventDefault();
+  };
+
+  return (
+    <motion.div
+      layout
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      aria-label="Matched regions"
+      className="glass-panel rounded-3xl border border-white/10 bg-white/5 p-5 outline-none focus-visible:ring-2 focus-visible:ring-cyan-300/60"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+    >
+      <div className="flex flex-wrap items-center gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.4em] text-white/60">Match navigator</p>
+          <p className="text-sm text-white/60">
+            {activeIndex === null ? `${matches.length} matched regions` : `Match ${activeIndex + 1} of ${matches.length}`}
+            {" · "}
+            <span className="text-white/40">↑/↓ or j/k to step, click a highlight to jump to its counterpart</span>
+          </p>
+        </div>
+        <div className="ml-auto flex gap-2">
+          <button
+            type="button"
+            onClick={() => step(-1)}
+            className="rounded-full border border-white/10 px-3 py-1 text-xs font-semibold text-white/70 transition hover:border-white/40 hover:text-white"
+          >
+            Previous
+          </button>
+          <button
+            type="button"
+            onClick={() => step(1)}
+            className="rounded-full border border-white/10 px-3 py-1 text-xs font-semibold text-white/70 transition hover:border-white/40 hover:text-white"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+      <ol ref={listRef} className="mt-4 max-h-56 space-y-1 overflow-y-auto pr-1">
+        {matches.map((match, index) => (
+          <li key={match.id}>
+            <button
+              type="button"
+              tabIndex={-1}
+              onClick={() => onSelect(index)}
+              aria-current={index === activeIndex}
+              className={`flex w-full items-center gap-3 rounded-xl px-3 py-1.5 text-left font-mono text-xs transition ${index === activeIndex ? "bg-white/15 text-white" : "text-white/70 hover:bg-white/5"}`}
+            >
+              <span className="h-2.5 w-2.5 shrink-0 rounded-sm" style={{ backgroundColor: match.color }} />
+              <span className="w-8 shrink-0 text-white/50">{match.id}</span>
+              <span>{describeMatch(match)}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </motion.div>
+  );
+}
@@ -1,7 +1,11 @@
 "use client";
 
 import { motion } from "framer-motion";
+import { useMemo, useState } from "react";
+import { CodeDiffWrapper } from "@/components/CodeDiffWrapper";
 import { CodeEditorWrapper } from "@/components/CodeEditorWrapper";
+import { useLinkedScroll } from "@/hooks/useLinkedScroll";
+import { findMatchedRegions, regionHighlights } from "@/lib/matchedRegions";
 
 interface NormalizedCodePanelProps {
   referenceCode?: string;
@@ -9,6 +13,14 @@ interface NormalizedCodePanelProps {
   language?: string;
 }
 
+type NormalizedView = "diff-split" | "diff-inline" | "editors";
+
+const VIEW_OPTIONS: { value: NormalizedView; label: string }[] = [
+  { value: "diff-split", label: "Diff · side by side" },
+  { value: "diff-inline", label: "Diff · inline" },
+  { value: "editors", label: "Editors" },
+];
+
 const noop = () => {
   /* read-only */
 };
@@ -18,8 +30,21 @@ export function NormalizedCodePanel({
   submissionCode,
   language = "python",
 }: NormalizedCodePanelProps) {
+  const [view, setView] = useState<NormalizedView>("diff-split");
+  const [scrollLinked, setScrollLinked] = useState(true);
   const hasData = Boolean(referenceCode || submissionCode);
 
+  // Matches are recomputed on the normalized text: line numbers differ from the raw inputs, and
+  // renamed identifiers that collapse during normalization should line up here too.
+  const matches = useMemo(
+    () => findMatchedRegions(referenceCode ?? "", submissionCode ?? "", { language }),
+    [referenceCode, submissionCode, language],
+  );
+  const referenceHighlights = useMemo(() => regionHighlights(matches, "reference"), [matches]);
+  const submissionHighlights = useMemo(() => regionHighlights(matches, "submission"), [matches]);
+  // the diff editor keeps its two sides aligned by itself
+  const linkedScroll = useLinkedScroll(matches, referenceCode ?? "", submissionCode ?? "", scrollLinked && view === "editors");
+
   if (!hasData) {
     return (
       <motion.div
@@ -37,27 +62,76 @@ export function NormalizedCodePanel({
   return (
     <motion.div
       layout
-      className="grid gap-6 lg:grid-cols-2"
+      className="space-y-4"
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ duration: 0.6 }}
     >
-      <CodeEditorWrapper
-        label="Normalized Reference"
-        code={referenceCode ?? ""}
-        setCode={noop}
-        language={language}
-        readOnly
-        style={{ minHeight: "24rem" }}
-      />
-      <CodeEditorWrapper
-        label="Normalized Submission"
-        code={submissionCode ?? ""}
-        setCode={noop}
-        language={language}
-        readOnly
-        style={{ minHeight: "24rem" }}
-      />
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="inline-flex rounded-full bg-black/30 p-1" role="radiogroup" aria-label="Normalized code view">
+          {VIEW_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              role="radio"
+              aria-checked={view === option.value}
+              onClick={() => setView(option.value)}
+              className={`rounded-full px-4 py-1.5 text-xs font-semibold transition ${view === option.value ? "bg-white text-black" : "text-white/70 hover:text-white"}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-white/50">
+          {matches.length} matched region{matches.length === 1 ? "" : "s"} after normalization
+        </p>
+        {view === "editors" && (
+          <label className="ml-auto flex items-center gap-2 text-xs text-white/70">
+            <input
+              type="checkbox"
+              checked={scrollLinked}
+              onChange={(event) => setScrollLinked(event.target.checked)}
+              className="accent-cyan-300"
+            />
+            Link scrolling
+          </label>
+        )}
+      </div>
+      {view === "editors" ? (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <CodeEditorWrapper
+            label="Normalized Reference"
+            code={referenceCode ?? ""}
+            setCode={noop}
+            highlights={referenceHighlights}
+            language={language}
+            readOnly
+            {...linkedScroll.reference}
+            style={{ minHeight: "24rem" }}
+          />
+          <CodeEditorWrapper
+            label="Normalized Submission"
+            code={submissionCode ?? ""}
+            setCode={noop}
+            highlights={submissionHighlights}
+            language={language}
+            readOnly
+            {...linkedScroll.submission}
+            style={{ minHeight: "24rem" }}
+          />
+        </div>
+      ) : (
+        <CodeDiffWrapper
+          label="Normalized Reference → Submission"
+          original={referenceCode ?? ""}
+          modified={submissionCode ?? ""}
+          originalHighlights={referenceHighlights}
+          modifiedHighlights={submissionHighlights}
+          language={language}
+          sideBySide={view === "diff-split"}
+          style={{ minHeight: "28rem" }}
+        />
+      )}
     </motion.div>
   );
 }
@@ -0,0 +1,81 @@
+"use client";
+
+import { useMemo } from "react";
+import { motion } from "framer-motion";
+import { CodeEditorWrapper, type EditorHighlight } from "@/components/CodeEditorWrapper";
+import { SimilarityResultPanel } from "@/components/SimilarityResultPanel";
+import { findMatchedRegions, regionHighlights } from "@/lib/matchedRegions";
+
+interface PairComparisonPanelProps {
+  leftId: string;
+  rightId: string;
+  leftCode: string;
+  rightCode: string;
+  similarityPercent: number;
+  riskLevel: string;
+  semanticSimilarity: number;
+  astSimilarity: number;
+  tokenSimilarity: number;
+  language?: string;
+}
+
+const noop = () => {
+  /* read-only */
+};
+
+export function PairComparisonPanel({
+  leftId,
+  rightId,
+  leftCode,
+  rightCode,
+  similarityPercent,
+  riskLevel,
+  semanticSimilarity,
+  astSimilarity,
+  tokenSimilarity,
+  language = "python",
+}: PairComparisonPanelProps) {
+  const matches = useMemo(() => findMatchedRegions(leftCode, rightCode, { language }), [leftCode, rightCode, language]);
+  const leftHighlights = useMemo<EditorHighlight[]>(() => regionHighlights(matches, "reference"), [matches]);
+  const rightHighlights = useMemo<EditorHighlight[]>(() => regionHighlights(matches, "submission"), [matches]);
+
+  return (
+    <motion.div
+      layout
+      className="space-y-6"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <SimilarityResultPanel
+        similarityPercent={similarityPercent}
+        riskLevel={riskLevel}
+        semanticSim={semanticSimilarity}
+        structureSim={astSimilarity}
+        tokenSim={tokenSimilarity}
+        explanation={`${leftId} ↔ ${rightId}: ${matches.length} matched region${matches.length === 1 ? "" : "s"} between the two submissions.`}
+        animateKey="plagiarism"
+      />
+      <div className="grid gap-6 lg:grid-cols-2">
+        <CodeEditorWrapper
+          label={leftId}
+          code={leftCode}
+          setCode={noop}
+          highlights={leftHighlights}
+          language={language}
+          readOnly
+          style={{ minHeight: "26rem" }}
+        />
+        <CodeEditorWrapper
+          label={rightId}
+          code={rightCode}
+          setCode={noop}
+          highlights={rightHighlights}
+          language={language}
+          readOnly
+          style={{ minHeight: "26rem" }}
+        />
+      </div>
+    </motion.div>
+  );
+}
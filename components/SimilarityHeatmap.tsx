@@ -0,0 +1,252 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { HeatmapLegend, heatmapColor } from "@/components/HeatmapLegend";
+import { buildSimilarityMatrix, clusterOrder } from "@/lib/clustering";
+
+export type HeatmapPair = {
+  key: string;
+  leftId: string;
+  rightId: string;
+  similarityPercent: number;
+  riskLevel: string;
+  semanticSimilarity: number;
+  astSimilarity: number;
+  tokenSimilarity: number;
+};
+
+type HeatmapOrder = "id" | "cluster";
+
+interface SimilarityHeatmapProps {
+  ids: string[];
+  pairs: HeatmapPair[];
+  selectedKey?: string | null;
+  onSelectPair: (key: string) => void;
+}
+
+type HoverCell = {
+  row: number;
+  column: number;
+  x: number;
+  y: number;
+};
+
+const LABEL_GUTTER = 120;
+const MIN_CELL = 3;
+const MAX_CELL = 32;
+const MIN_LABELLED_CELL = 10;
+
+const orderLabels: Record<HeatmapOrder, string> = {
+  id: "By ID",
+  cluster: "Clustered",
+};
+
+export function SimilarityHeatmap({ ids, pairs, selectedKey, onSelectPair }: SimilarityHeatmapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(640);
+  const [order, setOrder] = useState<HeatmapOrder>("cluster");
+  const [hover, setHover] = useState<HoverCell | null>(null);
+
+  const matrix = useMemo(() => buildSimilarityMatrix(ids, pairs), [ids, pairs]);
+  const pairLookup = useMemo(() => {
+    const lookup = new Map<string, HeatmapPair>();
+    pairs.forEach((pair) => {
+      lookup.set(`${pair.leftId}::${pair.rightId}`, pair);
+      lookup.set(`${pair.rightId}::${pair.leftId}`, pair);
+    });
+    return lookup;
+  }, [pairs]);
+  const orderedIndexes = useMemo(() => {
+    if (order === "cluster") return clusterOrder(matrix.values);
+    return ids
+      .map((id, index) => ({ id, index }))
+      .sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }))
+      .map((entry) => entry.index);
+  }, [ids, matrix, order]);
+
+  const showLabels = (width - LABEL_GUTTER) / Math.max(1, ids.length) >= MIN_LABELLED_CELL;
+  const gutter = showLabels ? LABEL_GUTTER : 0;
+  const cellSize = clamp(Math.floor((width - gutter) / Math.max(1, ids.length)), MIN_CELL, MAX_CELL);
+  const gridSize = cellSize * ids.length;
+  const canvasWidth = gutter + gridSize;
+  const canvasHeight = gutter + gridSize;
+
+  const pairAt = useCallback(
+    (row: number, column: number) => {
+      if (row === column) return null;
+      const rowId = ids[orderedIndexes[row]];
+      const columnId = ids[orderedIndexes[column]];
+      return pairLookup.get(`${rowId}::${columnId}`) ?? null;
+    },
+    [ids, orderedIndexes, pairLookup],
+  );
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver((entries) => {
+      const entry = entries[0];
+      if (entry) setWidth(entry.contentRect.width);
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    const dpr = typeof window === "undefined" ? 1 : window.devicePixelRatio || 1;
+    canvas.width = canvasWidth * dpr;
+    canvas.height = canvasHeight * dpr;
+    canvas.style.width = `${canvasWidth}px`;
+    canvas.style.height = `${canvasHeight}px`;
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, canvasWidth, canvasHeight);
+
+    orderedIndexes.forEach((rowIndex, row) => {
+      orderedIndexes.forEach((columnIndex, column) => {
+        ctx.fillStyle = row === column ? "rgba(255,255,255,0.06)" : heatmapColor(matrix.values[rowIndex][columnIndex]);
+        ctx.fillRect(gutter + column * cellSize, gutter + row * cellSize, cellSize - (cellSize > 6 ? 1 : 0), cellSize - (cellSize > 6 ? 1 : 0));
+      });
+    });
+
+    if (showLabels) {
+      ctx.fillStyle = "rgba(255,255,255,0.6)";
+      ctx.font = "10px 'Geist Mono', 'Space Mono', monospace";
+      ctx.textBaseline = "middle";
+      orderedIndexes.forEach((index, position) => {
+        const label = truncateLabel(ids[index]);
+        ctx.textAlign = "right";
+        ctx.fillText(label, gutter - 6, gutter + position * cellSize + cellSize / 2);
+        ctx.save();
+        ctx.translate(gutter + position * cellSize + cellSize / 2, gutter - 6);
+        ctx.rotate(-Math.PI / 2);
+        ctx.textAlign = "left";
+        ctx.fillText(label, 0, 0);
+        ctx.restore();
+      });
+    }
+
+    const outline = (row: number, column: number, color: string) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(gutter + column * cellSize, gutter + row * cellSize, cellSize, cellSize);
+    };
+
+    if (selectedKey) {
+      const selected = pairs.find((pair) => pair.key === selectedKey);
+      if (selected) {
+        const left = orderedIndexes.indexOf(ids.indexOf(selected.leftId));
+        const right = orderedIndexes.indexOf(ids.indexOf(selected.rightId));
+        if (left !== -1 && right !== -1) {
+          outline(left, right, "#72f5e4");
+          outline(right, left, "#72f5e4");
+        }
+      }
+    }
+    if (hover) {
+      outline(hover.row, hover.column, "rgba(255,255,255,0.9)");
+    }
+  }, [canvasHeight, canvasWidth, cellSize, gutter, hover, ids, matrix, orderedIndexes, pairs, selectedKey, showLabels]);
+
+  const locateCell = (event: React.MouseEvent<HTMLCanvasElement>): HoverCell | null => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    const column = Math.floor((x - gutter) / cellSize);
+    const row = Math.floor((y - gutter) / cellSize);
+    if (row < 0 || column < 0 || row >= ids.length || column >= ids.length) return null;
+    return { row, column, x, y };
+  };
+
+  const hoveredPair = hover ? pairAt(hover.row, hover.column) : null;
+
+  return (
+    <motion.div
+      layout
+      className="glass-panel space-y-4 rounded-3xl p-6"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="flex flex-wrap items-center gap-4">
+        <div>
+          <p className="text-xs uppercase tracking-[0.4em] text-white/60">Similarity matrix</p>
+          <p className="text-sm text-white/60">
+            {ids.length} × {ids.length} submissions · click a cell to open the pair
+          </p>
+        </div>
+        <div className="ml-auto inline-flex rounded-full bg-black/30 p-1">
+          {(Object.keys(orderLabels) as HeatmapOrder[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setOrder(option)}
+              className={`rounded-full px-4 py-1.5 text-xs font-semibold transition ${order === option ? "bg-white text-black" : "text-white/70 hover:text-white"}`}
+            >
+              {orderLabels[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div ref={containerRef} className="relative w-full overflow-auto">
+        <canvas
+          ref={canvasRef}
+          className="cursor-crosshair"
+          onPointerMove={(event) => {
+            const cell = locateCell(event);
+            setHover((current) =>
+              current && cell && current.row === cell.row && current.column === cell.column ? current : cell,
+            );
+          }}
+          onPointerLeave={() => setHover(null)}
+          onClick={(event) => {
+            const cell = locateCell(event);
+            if (!cell) return;
+            const pair = pairAt(cell.row, cell.column);
+            if (pair) onSelectPair(pair.key);
+          }}
+        />
+        {hover && hoveredPair && (
+          <div
+            className="pointer-events-none absolute z-10 min-w-[200px] rounded-2xl border border-white/10 bg-black/80 px-4 py-3 text-xs text-white/80 backdrop-blur"
+            style={{ left: hover.x + 14, top: hover.y + 14 }}
+          >
+            <p className="truncate text-sm font-semibold text-white">
+              {hoveredPair.leftId} ↔ {hoveredPair.rightId}
+            </p>
+            <p className="mt-1 text-white/60">
+              {Math.round(hoveredPair.similarityPercent)}% · {hoveredPair.riskLevel} risk
+            </p>
+            <dl className="mt-2 grid grid-cols-3 gap-2">
+              {[
+                { label: "Semantic", value: hoveredPair.semanticSimilarity },
+                { label: "AST", value: hoveredPair.astSimilarity },
+                { label: "Token", value: hoveredPair.tokenSimilarity },
+              ].map((metric) => (
+                <div key={metric.label}>
+                  <dt className="text-[10px] uppercase tracking-[0.3em] text-white/40">{metric.label}</dt>
+                  <dd className="font-semibold text-cyan-100">{Math.round(metric.value * 100)}%</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+      </div>
+      <HeatmapLegend className="max-w-md" />
+    </motion.div>
+  );
+}
+
+function truncateLabel(label: string) {
+  return label.length > 16 ? `${label.slice(0, 15)}…` : label;
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
@@ -2,21 +2,51 @@
 
 import { useEffect, useMemo, useRef, useState, type ChangeEvent } from "react";
 import { motion, AnimatePresence, animate, useMotionValue, useTransform } from "framer-motion";
-import { CodeEditorWrapper, EditorHighlight } from "@/components/CodeEditorWrapper";
+import { CodeEditorWrapper, EditorHighlight, type EditorFocusRange } from "@/components/CodeEditorWrapper";
 import { SimilarityResultPanel } from "@/components/SimilarityResultPanel";
 import { ASTVisualizer } from "@/components/ASTVisualizer";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AnimatedAnalyzeButton } from "@/components/AnimatedAnalyzeButton";
 import { NormalizedCodePanel } from "@/components/NormalizedCodePanel";
+import { PairComparisonPanel } from "@/components/PairComparisonPanel";
+import { SimilarityHeatmap } from "@/components/SimilarityHeatmap";
+import { BulkProgressPanel, type BulkProgressEntry } from "@/components/BulkProgressPanel";
+import { ArchivePreviewPanel } from "@/components/ArchivePreviewPanel";
+import { LanguageMismatchNotice } from "@/components/LanguageMismatchNotice";
+import { HistoryDrawer } from "@/components/HistoryDrawer";
+import { MatchNavigator } from "@/components/MatchNavigator";
 import {
   compareCodes,
-  bulkCompare,
+  streamBulkCompare,
+  type AnalysisEngine,
   type CodeMetrics, 
   type CompareCodesResponse,
   type BulkCompareResult,
+  type BulkPairResult,
   type BulkSubmissionInput,
 } from "@/lib/apiPlaceholders";
-import type { ASTNode } from "@/components/ASTVisualizer";
+import { findMatchedRegions, regionHighlights, type MatchedRegion } from "@/lib/matchedRegions";
+import type { ASTNode } from "@/lib/ast";
+import { readSubmissionArchive, submissionFilenames, type ArchivePreview } from "@/lib/archiveIngest";
+import { DEFAULT_LANGUAGE, LANGUAGES, LANGUAGE_OPTIONS, SOURCE_EXTENSIONS, type LanguageId } from "@/lib/languages";
+import { detectLanguage, findLanguageConflicts } from "@/lib/languageDetection";
+import { toCsv, type CsvColumn } from "@/lib/csv";
+import { downloadBlob, fileTimestamp } from "@/lib/download";
+import { buildComparisonReport } from "@/lib/comparisonReport";
+import { createSession, parseSession, serializeSession, type AnalysisSession, type SessionContent } from "@/lib/sessionFile";
+import {
+  MAX_HISTORY_ENTRIES,
+  addHistoryEntry,
+  clearHistory,
+  deleteHistoryEntry,
+  listHistory,
+  loadDraft,
+  loadHistorySession,
+  saveDraft,
+  type HistorySummary,
+} from "@/lib/analysisHistory";
+import { buildPermalink, parsePermalink, type SharedComparison } from "@/lib/permalink";
+import { useLinkedScroll } from "@/hooks/useLinkedScroll";
 
 function PlaceholderPanel({ title, description }: { title: string; description: string }) {
   return (
@@ -31,26 +61,9 @@ function PlaceholderPanel({ title, description }: { title: string; description:
   );
 }
 
-const editorLanguage = "python";
-
-const defaultSnippetA = `def normalize_scores(scores):
-    if not scores:
-        return []
-    maximum = max(scores)
-    return [round(score / maximum, 2) for score in scores]
-`;
-
-const defaultSnippetB = `def normalize_scores(scores):
-    if not isinstance(scores, list):
-        return []
-    peak = max(scores + [1])
-    normalized = []
-    for score in scores:
-        normalized.append(round(score / peak, 2))
-    return normalized
-`;
-
 type AnalysisResult = {
+  /** What was analyzed; the editors may have changed since. */
+  inputs: { language: LanguageId; reference: string; submission: string };
   similarityPercent: number;
   riskLevel: string;
   semanticSimilarity: number;
@@ -66,6 +79,9 @@ type AnalysisResult = {
   qualityScore?: number | null;
   qualityLabel?: string | null;
   qualityExplanation?: string | null;
+  engine: AnalysisEngine;
+  fallbackReason?: string;
+  matches: MatchedRegion[];
 };
 
 type BulkResultView = {
@@ -80,45 +96,110 @@ type BulkResultView = {
   qualityLabel?: string;
   qualityExplanation?: string;
   submissionAst: ASTNode[];
+  normalizedReference?: string;
   normalizedSubmission?: string;
   submissionMetrics?: CodeMetrics;
 };
 
+type BulkPairView = {
+  key: string;
+  leftId: string;
+  rightId: string;
+  similarityPercent: number;
+  riskLevel: string;
+  semanticSimilarity: number;
+  astSimilarity: number;
+  tokenSimilarity: number;
+};
+
+type BulkView = "reference" | "pairwise";
+
 export function CheckerScreen() {
   const [mode, setMode] = useState<"single" | "bulk">("single");
-  const [codeA, setCodeA] = useState(defaultSnippetA);
-  const [codeB, setCodeB] = useState(defaultSnippetB);
+  const [language, setLanguage] = useState<LanguageId>(DEFAULT_LANGUAGE);
+  const [allowMixedLanguages, setAllowMixedLanguages] = useState(false);
+  const [codeA, setCodeA] = useState(LANGUAGES[DEFAULT_LANGUAGE].defaults.reference);
+  const [codeB, setCodeB] = useState(LANGUAGES[DEFAULT_LANGUAGE].defaults.submission);
   const [uploadedFiles, setUploadedFiles] = useState<Record<string, string>>({});
   const [selectedFilename, setSelectedFilename] = useState<string | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [archivePreviews, setArchivePreviews] = useState<ArchivePreview[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [scrollLinked, setScrollLinked] = useState(true);
+  // keyed by the match list so a new analysis starts without a selection
+  const [matchSelection, setMatchSelection] = useState<{ matches: MatchedRegion[]; index: number } | null>(null);
+  const [matchFocus, setMatchFocus] = useState<Partial<Record<"reference" | "submission", EditorFocusRange>>>({});
   const [bulkResults, setBulkResults] = useState<BulkResultView[] | null>(null);
   const [bulkSortBy, setBulkSortBy] = useState<SortOption>("plagiarism");
   const [selectedBulkId, setSelectedBulkId] = useState<string | null>(null);
+  const [bulkSubmissions, setBulkSubmissions] = useState<BulkSubmissionInput[]>([]);
+  const [bulkPairs, setBulkPairs] = useState<BulkPairView[] | null>(null);
+  const [bulkView, setBulkView] = useState<BulkView>("reference");
+  const [selectedPairKey, setSelectedPairKey] = useState<string | null>(null);
+  const [bulkProgress, setBulkProgress] = useState<BulkProgressEntry[] | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState("plagiarism");
+  const [compareResponse, setCompareResponse] = useState<CompareCodesResponse | null>(null);
+  const [bulkRun, setBulkRun] = useState<AnalysisSession["bulk"] | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
-
-  const fallbackHighlights = useMemo<EditorHighlight[]>(
-    () => [
-      { id: "A", startLine: 1, endLine: 2, color: "rgba(56,189,248,0.35)" },
-      { id: "B", startLine: 3, endLine: 4, color: "rgba(244,63,94,0.35)" },
-    ],
-    [],
+  const sessionInputRef = useRef<HTMLInputElement | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyEntries, setHistoryEntries] = useState<HistorySummary[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [draftLoaded, setDraftLoaded] = useState(false);
+  const [shareNotice, setShareNotice] = useState<string | null>(null);
+  const languageConfig = LANGUAGES[language];
+
+  const referenceHighlights = useMemo<EditorHighlight[]>(
+    () => (analysis ? regionHighlights(analysis.matches, "reference") : []),
+    [analysis],
   );
-
-  const highlights = useMemo<EditorHighlight[]>(() => {
-    if (!analysis) return fallbackHighlights;
-    const blocks = Math.max(2, Math.round(analysis.similarityPercent / 25));
-    return Array.from({ length: blocks }).map((_, index) => ({
-      id: `Match-${index + 1}`,
-      startLine: 1 + index * 2,
-      endLine: 2 + index * 2,
-      color: `rgba(56,189,248,${0.2 + index * 0.1})`,
+  const submissionHighlights = useMemo<EditorHighlight[]>(
+    () => (analysis ? regionHighlights(analysis.matches, "submission") : []),
+    [analysis],
+  );
+  const activeMatchIndex =
+    analysis && matchSelection?.matches === analysis.matches ? matchSelection.index : null;
+
+  const focusMatch = (index: number, sides: ("reference" | "submission")[]) => {
+    const match = analysis?.matches[index];
+    if (!analysis || !match) return;
+    const nonce = Date.now();
+    setMatchSelection({ matches: analysis.matches, index });
+    setMatchFocus((current) => ({
+      ...current,
+      ...Object.fromEntries(sides.map((side) => [side, { ...match[side], nonce }])),
     }));
-  }, [analysis, fallbackHighlights]);
+  };
+
+  const handleHighlightClick = (side: "reference" | "submission") => (highlight: EditorHighlight) => {
+    const index = analysis?.matches.findIndex((match) => match.id === highlight.id) ?? -1;
+    if (index >= 0) focusMatch(index, [side === "reference" ? "submission" : "reference"]);
+  };
+
+  const linkedScroll = useLinkedScroll(analysis?.matches ?? NO_MATCHES, codeA, codeB, scrollLinked && mode === "single");
   const uploadedFileNames = useMemo(() => Object.keys(uploadedFiles), [uploadedFiles]);
+  const uploadedLanguages = useMemo(
+    () =>
+      new Map(Object.entries(uploadedFiles).map(([filename, code]) => [filename, detectLanguage(code, filename)?.language])),
+    [uploadedFiles],
+  );
+  const languageConflicts = useMemo(
+    () =>
+      findLanguageConflicts(
+        language,
+        codeA,
+        mode === "single"
+          ? [{ id: "submission", code: codeB }]
+          : Object.entries(uploadedFiles).map(([filename, code]) => ({ id: filename, code, filename })),
+      ),
+    [language, codeA, codeB, mode, uploadedFiles],
+  );
+  const suggestedLanguage = useMemo(() => {
+    const detected = new Set(languageConflicts.map((conflict) => conflict.guess.language));
+    return detected.size === 1 ? [...detected][0] : null;
+  }, [languageConflicts]);
   const selectedFileCode = useMemo(() => {
     if (!selectedFilename) return "";
     return uploadedFiles[selectedFilename] ?? "";
@@ -136,6 +217,17 @@ export function CheckerScreen() {
     return sortedBulkResults[0];
   }, [selectedBulkId, sortedBulkResults]);
 
+  const suspiciousPairs = useMemo(() => (bulkPairs ? selectSuspiciousPairs(bulkPairs) : []), [bulkPairs]);
+  const selectedPair = useMemo(() => {
+    const match = bulkPairs?.find((pair) => pair.key === selectedPairKey);
+    return match ?? suspiciousPairs[0] ?? null;
+  }, [bulkPairs, selectedPairKey, suspiciousPairs]);
+  const bulkSubmissionIds = useMemo(() => bulkSubmissions.map((submission) => submission.id), [bulkSubmissions]);
+  const bulkCodeById = useMemo(
+    () => new Map(bulkSubmissions.map((submission) => [submission.id, submission.code])),
+    [bulkSubmissions],
+  );
+
   useEffect(() => {
     setSelectedFilename((current) => {
       if (current && uploadedFiles[current] !== undefined) {
@@ -162,6 +254,79 @@ export function CheckerScreen() {
     return () => clearTimeout(timer);
   }, [sortedBulkResults]);
 
+  // A `#share=` permalink wins over the autosaved draft; either is applied before autosave may
+  // overwrite the draft. Later fragment changes (a link pasted into this tab) are applied too.
+  useEffect(() => {
+    let cancelled = false;
+    const applyShared = (shared: SharedComparison) => {
+      setMode("single");
+      setLanguage(shared.language);
+      setCodeA(shared.reference);
+      setCodeB(shared.submission);
+      setErrorMessage(null);
+      const inputs = { language: shared.language, reference: shared.reference, submission: shared.submission };
+      setCompareResponse(shared.result ?? null);
+      setAnalysis(
+        shared.result
+          ? mapToAnalysis(shared.result, findMatchedRegions(shared.reference, shared.submission, { language: shared.language }), inputs)
+          : null,
+      );
+      setShareNotice(shared.result ? "Opened a shared comparison." : "Opened a shared comparison; press Analyze to score it.");
+    };
+    const readFragment = () => {
+      const parsed = parsePermalink(window.location.hash);
+      if (!parsed) return false;
+      if (parsed.ok) applyShared(parsed.value);
+      else setErrorMessage(parsed.message);
+      return true;
+    };
+    const onHashChange = () => {
+      readFragment();
+    };
+    window.addEventListener("hashchange", onHashChange);
+
+    Promise.resolve()
+      .then(async () => (readFragment() ? null : loadDraft()))
+      .then((draft) => {
+        if (cancelled || !draft) return;
+        setMode(draft.mode);
+        setLanguage(draft.language);
+        setCodeA(draft.editors.reference);
+        setCodeB(draft.editors.submission);
+        setUploadedFiles(draft.uploadedFiles);
+      })
+      .catch(() => {
+        // no IndexedDB (private mode, old browser): the checker just starts fresh
+      })
+      .finally(() => {
+        if (!cancelled) setDraftLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+      window.removeEventListener("hashchange", onHashChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!draftLoaded) return;
+    const timer = setTimeout(() => {
+      saveDraft({
+        savedAt: new Date().toISOString(),
+        mode,
+        language,
+        editors: { reference: codeA, submission: codeB },
+        uploadedFiles,
+      }).catch(() => undefined);
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draftLoaded, mode, language, codeA, codeB, uploadedFiles]);
+
+  const recordHistory = (content: SessionContent) => {
+    addHistoryEntry(createSession(content))
+      .then((summary) => setHistoryEntries((prev) => [summary, ...prev].slice(0, MAX_HISTORY_ENTRIES)))
+      .catch(() => undefined);
+  };
+
   const handleAnalyze = async () => {
     setIsAnalyzing(true);
     setErrorMessage(null);
@@ -175,31 +340,91 @@ export function CheckerScreen() {
           throw new Error("Submission code cannot be empty");
         }
         const response = await compareCodes({
-          language: editorLanguage,
+          language,
           reference_code: codeA,
           submission_code: codeB,
         });
-        setAnalysis(mapToAnalysis(response));
+        setAnalysis(
+          mapToAnalysis(response, findMatchedRegions(codeA, codeB, { language }), {
+            language,
+            reference: codeA,
+            submission: codeB,
+          }),
+        );
+        setCompareResponse(response);
         setBulkResults(null);
+        recordHistory({
+          mode: "single",
+          language,
+          editors: { reference: codeA, submission: codeB },
+          uploadedFiles,
+          single: { inputs: { language, reference: codeA, submission: codeB }, response },
+          view: { activeTab },
+        });
         return;
       }
 
       const normalizedSubmissions = buildBulkSubmissionPayload(uploadedFiles);
       if (!normalizedSubmissions.length) {
-        throw new Error("Upload at least one Python file to compare");
+        throw new Error(`Upload at least one ${languageConfig.label} file to compare`);
       }
 
-      const response = await bulkCompare({
-        language: editorLanguage,
-        reference_code: codeA,
-        submissions: normalizedSubmissions,
-      });
-      setBulkResults(mapBulkResults(response.results));
+      setBulkProgress(normalizedSubmissions.map(({ id }) => ({ id, status: "queued" })));
+      setBulkRun(null);
+      setBulkResults(null);
+      setBulkPairs(null);
+      setBulkSubmissions(normalizedSubmissions);
       setBulkSortBy("plagiarism");
       setSelectedBulkId(null);
+      setSelectedPairKey(null);
       setAnalysis(null);
+
+      const response = await streamBulkCompare(
+        {
+          language,
+          reference_code: codeA,
+          submissions: normalizedSubmissions,
+          pairwise: true,
+          allowMixedLanguages,
+        },
+        (event) => {
+          if (event.type === "started") {
+            setBulkProgress((prev) => patchProgressEntry(prev, event.id, { status: "running" }));
+          }
+          if (event.type !== "result") return;
+          const [view] = mapBulkResults([event.result]);
+          setBulkProgress((prev) =>
+            patchProgressEntry(prev, view.id, {
+              status: !event.result.ok ? "failed" : event.cached ? "cached" : "done",
+              similarityPercent: event.result.ok ? view.similarityPercent : undefined,
+              error: event.result.error ?? undefined,
+            }),
+          );
+          if (event.result.ok) {
+            setBulkResults((prev) => [...(prev ?? []).filter((entry) => entry.id !== view.id), view]);
+          }
+        },
+      );
+      setBulkResults(mapBulkResults(response.results.filter((result) => result.ok)));
+      setBulkPairs(mapBulkPairs(response.pairs ?? []));
+      const run = { language, reference: codeA, submissions: normalizedSubmissions, response };
+      setBulkRun(run);
+      recordHistory({
+        mode: "bulk",
+        language,
+        editors: { reference: codeA, submission: codeB },
+        uploadedFiles,
+        bulk: run,
+        view: { bulkSortBy: "plagiarism", bulkView: "reference" },
+      });
     } catch (error) {
-      setErrorMessage(error instanceof Error ? error.message : "Unexpected analyzer error");
+      const message = error instanceof Error ? error.message : "Unexpected analyzer error";
+      setErrorMessage(message);
+      setBulkProgress((prev) =>
+        prev?.map((entry) =>
+          entry.status === "queued" || entry.status === "running" ? { ...entry, status: "failed", error: message } : entry,
+        ) ?? null,
+      );
     } finally {
       setIsAnalyzing(false);
     }
@@ -241,17 +466,39 @@ export function CheckerScreen() {
     if (!files?.length) return;
 
     const fileArray = Array.from(files);
-    const pythonFiles = fileArray.filter((file) => file.name.toLowerCase().endsWith(".py"));
-    const rejectedCount = fileArray.length - pythonFiles.length;
-    setUploadError(rejectedCount > 0 ? "Only Python (.py) files can be uploaded." : null);
+    const archives = fileArray.filter((file) => file.name.toLowerCase().endsWith(".zip"));
+    // any supported language is accepted here; mismatches with the selector are flagged, not dropped
+    const sourceFiles = fileArray.filter((file) =>
+      SOURCE_EXTENSIONS.some((extension) => file.name.toLowerCase().endsWith(extension)),
+    );
+    const rejectedCount = fileArray.length - sourceFiles.length - archives.length;
+    setUploadError(
+      rejectedCount > 0 ? `Only source files (${SOURCE_EXTENSIONS.join(", ")}) or .zip archives can be uploaded.` : null,
+    );
+
+    if (archives.length) {
+      const results = await Promise.allSettled(
+        archives.map((archive) =>
+          readSubmissionArchive(archive, {
+            extensions: SOURCE_EXTENSIONS,
+            lineComment: languageConfig.lineComment,
+          }),
+        ),
+      );
+      const previews = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+      setArchivePreviews((prev) => [...prev, ...previews]);
+      if (previews.length < archives.length) {
+        setUploadError("Some archives could not be read. Make sure they are valid .zip files.");
+      }
+    }
 
-    if (!pythonFiles.length) {
+    if (!sourceFiles.length) {
       event.target.value = "";
       return;
     }
 
     const uploads = await Promise.all(
-      pythonFiles.map(async (file) => ({
+      sourceFiles.map(async (file) => ({
         name: file.name,
         code: await file.text(),
       })),
@@ -270,6 +517,218 @@ export function CheckerScreen() {
     event.target.value = "";
   };
 
+  const handleConfirmArchive = (preview: ArchivePreview) => {
+    const filenames = submissionFilenames(preview.submissions, uploadedFileNames, languageConfig.extensions[0]);
+    const entries = preview.submissions.map((submission, index) => [filenames[index].filename, submission.code] as const);
+    setUploadedFiles((prev) => ({ ...prev, ...Object.fromEntries(entries) }));
+    setSelectedFilename((current) => current ?? entries[0]?.[0] ?? null);
+    setArchivePreviews((prev) => prev.filter((entry) => entry !== preview));
+  };
+
+  const handleCancelArchive = (preview: ArchivePreview) => {
+    setArchivePreviews((prev) => prev.filter((entry) => entry !== preview));
+  };
+
+  const renderReport = async () => {
+    if (!analysis) return null;
+    return buildComparisonReport({
+      ...analysis.inputs,
+      scores: {
+        plagiarism: analysis.similarityPercent,
+        semantic: toPercent(analysis.semanticSimilarity),
+        ast: toPercent(analysis.astSimilarity),
+        token: toPercent(analysis.tokenSimilarity),
+        quality: analysis.qualityScore,
+      },
+      riskLevel: analysis.riskLevel,
+      explanation: analysis.explanation,
+      qualityLabel: analysis.qualityLabel,
+      qualityExplanation: analysis.qualityExplanation,
+      referenceMetrics: analysis.referenceMetrics,
+      submissionMetrics: analysis.submissionMetrics,
+      matches: analysis.matches,
+      engine: analysis.engine,
+      fallbackReason: analysis.fallbackReason,
+    });
+  };
+
+  const handleDownloadReport = async () => {
+    const html = await renderReport();
+    if (html) downloadBlob(`plagify-report-${fileTimestamp()}.html`, html, "text/html;charset=utf-8");
+  };
+
+  const handlePrintReport = async () => {
+    const html = await renderReport();
+    if (!html) return;
+    const url = URL.createObjectURL(new Blob([html], { type: "text/html;charset=utf-8" }));
+    const popup = window.open(url, "_blank");
+    if (!popup) {
+      URL.revokeObjectURL(url);
+      setErrorMessage("Allow pop-ups to print the report, or use Download report instead.");
+      return;
+    }
+    popup.addEventListener("load", () => {
+      popup.print();
+      URL.revokeObjectURL(url);
+    });
+  };
+
+  const handleSaveSession = () => {
+    const json = serializeSession({
+      mode,
+      language,
+      editors: { reference: codeA, submission: codeB },
+      uploadedFiles,
+      single: analysis && compareResponse ? { inputs: analysis.inputs, response: compareResponse } : undefined,
+      bulk: bulkRun ?? undefined,
+      view: { activeTab, bulkSortBy, bulkView, selectedBulkId, selectedPairKey, selectedFilename },
+    });
+    downloadBlob(`plagify-session-${fileTimestamp()}.json`, json, "application/json");
+  };
+
+  const handleOpenSession = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const parsed = parseSession(await file.text());
+    if (!parsed.ok) {
+      setErrorMessage(parsed.message);
+      return;
+    }
+    restoreSession(parsed.value);
+  };
+
+  // Rebuilds the workspace from saved analyzer responses; nothing is sent to the backend.
+  const restoreSession = (session: AnalysisSession) => {
+    const { view } = session;
+    setMode(session.mode);
+    setLanguage(session.language);
+    setAllowMixedLanguages(false);
+    setCodeA(session.editors.reference);
+    setCodeB(session.editors.submission);
+    setUploadedFiles(session.uploadedFiles);
+    setSelectedFilename(view.selectedFilename ?? null);
+    setArchivePreviews([]);
+    setUploadError(null);
+    setErrorMessage(null);
+
+    if (session.single) {
+      const { inputs, response } = session.single;
+      setCompareResponse(response);
+      setAnalysis(mapToAnalysis(response, findMatchedRegions(inputs.reference, inputs.submission, { language: inputs.language }), inputs));
+    } else {
+      setCompareResponse(null);
+      setAnalysis(null);
+    }
+
+    if (session.bulk) {
+      const { submissions, response } = session.bulk;
+      setBulkRun(session.bulk);
+      setBulkSubmissions(submissions);
+      setBulkResults(mapBulkResults(response.results.filter((result) => result.ok)));
+      setBulkPairs(mapBulkPairs(response.pairs ?? []));
+      setBulkProgress(
+        response.results.map((result) => ({
+          id: result.id,
+          status: result.ok ? "done" : "failed",
+          similarityPercent: result.ok ? toPercent(result.plagiarism_score) : undefined,
+          error: result.error ?? undefined,
+        })),
+      );
+    } else {
+      setBulkRun(null);
+      setBulkSubmissions([]);
+      setBulkResults(null);
+      setBulkPairs(null);
+      setBulkProgress(null);
+    }
+
+    setActiveTab(view.activeTab ?? "plagiarism");
+    setBulkSortBy(view.bulkSortBy === "quality" ? "quality" : "plagiarism");
+    setBulkView(view.bulkView === "pairwise" ? "pairwise" : "reference");
+    setSelectedBulkId(view.selectedBulkId ?? null);
+    setSelectedPairKey(view.selectedPairKey ?? null);
+  };
+
+  const handleOpenHistory = () => {
+    setHistoryOpen(true);
+    setHistoryError(null);
+    listHistory()
+      .then(setHistoryEntries)
+      .catch((error: unknown) => setHistoryError(error instanceof Error ? error.message : "History is unavailable"));
+  };
+
+  const handleRestoreHistory = async (id: string) => {
+    try {
+      const result = await loadHistorySession(id);
+      if (!result.ok) {
+        setHistoryError(result.message);
+        return;
+      }
+      restoreSession(result.value);
+      setHistoryOpen(false);
+    } catch (error) {
+      setHistoryError(error instanceof Error ? error.message : "History is unavailable");
+    }
+  };
+
+  const handleDeleteHistory = (id: string) => {
+    deleteHistoryEntry(id)
+      .then(() => setHistoryEntries((prev) => prev.filter((entry) => entry.id !== id)))
+      .catch((error: unknown) => setHistoryError(error instanceof Error ? error.message : "History is unavailable"));
+  };
+
+  const handleClearHistory = () => {
+    clearHistory()
+      .then(() => setHistoryEntries([]))
+      .catch((error: unknown) => setHistoryError(error instanceof Error ? error.message : "History is unavailable"));
+  };
+
+  const handleCopyPermalink = async () => {
+    // only attach the result when it still describes what is in the editors
+    const current =
+      analysis &&
+      compareResponse &&
+      analysis.inputs.language === language &&
+      analysis.inputs.reference === codeA &&
+      analysis.inputs.submission === codeB;
+    const link = buildPermalink(window.location.href, {
+      language,
+      reference: codeA,
+      submission: codeB,
+      result: current ? compareResponse : undefined,
+    });
+    if (!link.ok) {
+      setShareNotice(null);
+      setErrorMessage(link.message);
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setShareNotice(["Link copied to the clipboard.", link.warning].filter(Boolean).join(" "));
+    } catch {
+      window.history.replaceState(null, "", link.url);
+      setShareNotice(["Clipboard access was blocked; the link is now in the address bar.", link.warning].filter(Boolean).join(" "));
+    }
+  };
+
+  const handleExportCsv = () => {
+    if (!sortedBulkResults.length) return;
+    // the BOM makes Excel read the file as UTF-8
+    downloadBlob(`plagify-bulk-${fileTimestamp()}.csv`, `\uFEFF${bulkResultsCsv(sortedBulkResults)}`, "text/csv;charset=utf-8");
+  };
+
+  const handleLanguageChange = (next: LanguageId) => {
+    if (next === language) return;
+    // only swap the sample snippets; anything the user typed stays put
+    const previous = LANGUAGES[language].defaults;
+    setCodeA((current) => (current === previous.reference ? LANGUAGES[next].defaults.reference : current));
+    setCodeB((current) => (current === previous.submission ? LANGUAGES[next].defaults.submission : current));
+    setLanguage(next);
+    setAllowMixedLanguages(false);
+    setAnalysis(null);
+  };
+
   useEffect(() => {
     setActiveTab((current) => {
       if (mode === "bulk") return "plagiarism";
@@ -279,6 +738,7 @@ export function CheckerScreen() {
 
   const hasAnalysis = mode === "single" && Boolean(analysis);
   const hasBulkResults = mode === "bulk" && Boolean(bulkResults?.length);
+  const showPairwise = mode === "bulk" && hasBulkResults && bulkView === "pairwise";
 
   return (
     <div className="space-y-10">
@@ -308,29 +768,111 @@ export function CheckerScreen() {
             Bulk upload
           </button>
         </div>
+        <div className="inline-flex flex-wrap rounded-full bg-black/30 p-1" role="radiogroup" aria-label="Language">
+          {LANGUAGE_OPTIONS.map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              role="radio"
+              aria-checked={language === option.id}
+              onClick={() => handleLanguageChange(option.id)}
+              className={`rounded-full px-4 py-2 text-sm font-semibold transition ${language === option.id ? "bg-cyan-300 text-black" : "text-white/70 hover:text-white"}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
         <p className="text-sm text-white/70">
           {mode === "single"
             ? "Compare one submission alongside your reference."
-            : "Upload many files; IDs follow filenames and duplicate names get /number prefixes."}
+            : "Upload many files or an LMS ZIP export; IDs follow filenames or student folders and duplicate names get /number prefixes."}
         </p>
+        <div className="ml-auto flex gap-2">
+          <button
+            type="button"
+            onClick={handleOpenHistory}
+            className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold text-white/70 transition hover:border-white/40 hover:text-white"
+          >
+            History
+          </button>
+          <button
+            type="button"
+            onClick={handleSaveSession}
+            title="Download inputs, results and view state as a JSON session file"
+            className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold text-white/70 transition hover:border-white/40 hover:text-white"
+          >
+            Save session
+          </button>
+          <button
+            type="button"
+            onClick={() => sessionInputRef.current?.click()}
+            title="Re-open a saved session without re-running the analysis"
+            className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold text-white/70 transition hover:border-white/40 hover:text-white"
+          >
+            Open session
+          </button>
+          <input
+            ref={sessionInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleOpenSession}
+          />
+        </div>
       </div>
+      <HistoryDrawer
+        open={historyOpen}
+        entries={historyEntries}
+        error={historyError}
+        onClose={() => setHistoryOpen(false)}
+        onRestore={handleRestoreHistory}
+        onDelete={handleDeleteHistory}
+        onClear={handleClearHistory}
+      />
+      {languageConflicts.length > 0 && (
+        <LanguageMismatchNotice
+          language={language}
+          conflicts={languageConflicts}
+          suggested={suggestedLanguage}
+          onSwitch={handleLanguageChange}
+          allowMixed={allowMixedLanguages}
+          onAllowMixedChange={mode === "bulk" ? setAllowMixedLanguages : undefined}
+        />
+      )}
+      {mode === "single" && (
+        <label className="-mb-4 flex items-center justify-end gap-2 text-xs text-white/70">
+          <input
+            type="checkbox"
+            checked={scrollLinked}
+            onChange={(event) => setScrollLinked(event.target.checked)}
+            className="accent-cyan-300"
+          />
+          Link scrolling{analysis?.matches.length ? " (anchored on matched regions)" : ""}
+        </label>
+      )}
       <div className="grid gap-6 lg:grid-cols-2">
         <CodeEditorWrapper
           label="Reference Code"
           code={codeA}
           setCode={setCodeA}
-          highlights={highlights}
-          language={editorLanguage}
+          highlights={mode === "single" ? referenceHighlights : []}
+          language={language}
           style={{ minHeight: "32rem" }}
+          {...linkedScroll.reference}
+          onHighlightClick={mode === "single" ? handleHighlightClick("reference") : undefined}
+          focusRange={mode === "single" ? matchFocus.reference : null}
         />
         {mode === "single" ? (
           <CodeEditorWrapper
             label="Submission Code"
             code={codeB}
             setCode={setCodeB}
-            highlights={highlights}
-            language={editorLanguage}
+            highlights={submissionHighlights}
+            language={language}
             style={{ minHeight: "32rem" }}
+            {...linkedScroll.submission}
+            onHighlightClick={handleHighlightClick("submission")}
+            focusRange={matchFocus.submission}
           />
         ) : (
           <div className="space-y-4">
@@ -338,7 +880,7 @@ export function CheckerScreen() {
               <div className="flex flex-wrap items-center gap-4">
                 <div>
                   <p className="text-xs uppercase tracking-[0.4em] text-white/60">Bulk uploads</p>
-                  <p className="text-sm text-white/60">Attach .py files</p>
+                  <p className="text-sm text-white/60">Attach source files or a .zip export</p>
                 </div>
                 <button
                   type="button"
@@ -352,12 +894,21 @@ export function CheckerScreen() {
                 ref={fileInputRef}
                 type="file"
                 multiple
-                accept=".py"
+                accept={[...SOURCE_EXTENSIONS, ".zip"].join(",")}
                 className="hidden"
                 onChange={handleBulkFileSelect}
               />
               {uploadError && <p className="mt-3 text-xs text-rose-200">{uploadError}</p>}
             </div>
+            {archivePreviews.map((preview, index) => (
+              <ArchivePreviewPanel
+                key={`${preview.archiveName}-${index}`}
+                preview={preview}
+                filenames={submissionFilenames(preview.submissions, uploadedFileNames, languageConfig.extensions[0])}
+                onConfirm={() => handleConfirmArchive(preview)}
+                onCancel={() => handleCancelArchive(preview)}
+              />
+            ))}
             <div className="glass-panel rounded-3xl border border-white/10 bg-white/5 p-5">
               <div className="flex flex-wrap items-center gap-3">
                 <div>
@@ -392,6 +943,13 @@ export function CheckerScreen() {
                         >
                           {filename}
                         </button>
+                        {uploadedLanguages.get(filename) && (
+                          <span
+                            className={`rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.2em] ${uploadedLanguages.get(filename) === language ? "bg-white/10 text-white/60" : "bg-amber-400/20 text-amber-100"}`}
+                          >
+                            {LANGUAGES[uploadedLanguages.get(filename) as LanguageId].label}
+                          </span>
+                        )}
                         <button
                           type="button"
                           onClick={() => handleRemoveUploadedFile(filename)}
@@ -403,7 +961,7 @@ export function CheckerScreen() {
                     ))}
                   </ul>
                 ) : (
-                  <div className="px-4 py-8 text-sm text-white/50">Upload .py files to see them listed here.</div>
+                  <div className="px-4 py-8 text-sm text-white/50">Upload {languageConfig.label} files to see them listed here.</div>
                 )}
               </div>
             </div>
@@ -423,7 +981,7 @@ export function CheckerScreen() {
                     code={selectedFileCode}
                     setCode={handleUploadedFileCodeChange}
                     highlights={[]}
-                    language={editorLanguage}
+                    language={language}
                     style={{ minHeight: "22rem", height: "22rem" }}
                   />
                 ) : (
@@ -434,19 +992,63 @@ export function CheckerScreen() {
               </div>
             ) : (
               <div className="rounded-3xl border border-dashed border-white/20 px-4 py-10 text-center text-sm text-white/60">
-                Upload .py files to edit them before running the analysis.
+                Upload {languageConfig.label} files to edit them before running the analysis.
               </div>
             )}
           </div>
         )}
       </div>
 
+      {hasAnalysis && analysis && (
+        <MatchNavigator
+          matches={analysis.matches}
+          activeIndex={activeMatchIndex}
+          onSelect={(index) => focusMatch(index, ["reference", "submission"])}
+        />
+      )}
+
       <div className="flex flex-wrap items-center gap-4">
         <AnimatedAnalyzeButton onClick={handleAnalyze} isLoading={isAnalyzing} label="Analyze" />
         <div className="text-sm text-white/60">
-          Powered by the Plagify analysis endpoint.
+          {mode === "single" && analysis?.engine === "local"
+            ? analysis.fallbackReason
+              ? `Computed by the offline local engine — the analysis endpoint failed (${analysis.fallbackReason}).`
+              : "Computed by the offline local engine."
+            : "Powered by the Plagify analysis endpoint."}
         </div>
+        {mode === "single" && (
+          <div className="ml-auto flex gap-2">
+            <button
+              type="button"
+              onClick={handleCopyPermalink}
+              title="Copy a link that opens this comparison"
+              className="rounded-full border border-white/10 px-4 py-2 text-sm font-semibold text-white/70 transition hover:border-white/40 hover:text-white"
+            >
+              Copy link
+            </button>
+            {hasAnalysis && (
+              <>
+                <button
+                  type="button"
+                  onClick={handleDownloadReport}
+                  className="rounded-full border border-white/20 px-4 py-2 text-sm font-semibold text-white transition hover:border-cyan-300/60 hover:text-cyan-200"
+                >
+                  Generate report
+                </button>
+                <button
+                  type="button"
+                  onClick={handlePrintReport}
+                  title="Open the report and print it or save it as PDF"
+                  className="rounded-full border border-white/10 px-4 py-2 text-sm font-semibold text-white/70 transition hover:border-white/40 hover:text-white"
+                >
+                  Print / PDF
+                </button>
+              </>
+            )}
+          </div>
+        )}
       </div>
+      {mode === "single" && shareNotice && <p className="text-xs text-cyan-100/80">{shareNotice}</p>}
       <AnimatePresence>
         {isAnalyzing && (
           <motion.div
@@ -473,6 +1075,18 @@ export function CheckerScreen() {
           </motion.div>
         )}
       </AnimatePresence>
+      {mode === "bulk" && bulkProgress && (
+        <BulkProgressPanel
+          entries={bulkProgress}
+          isRunning={isAnalyzing}
+          selectedId={bulkView === "reference" ? selectedBulkResult?.id : null}
+          onSelect={(id) => {
+            setSelectedBulkId(id);
+            setBulkView("reference");
+          }}
+        />
+      )}
+
       {mode === "bulk" && (
         hasBulkResults && bulkResults && selectedBulkResult ? (
           <BulkResultsControls
@@ -481,207 +1095,257 @@ export function CheckerScreen() {
             selectedId={selectedBulkResult.id}
             onSelect={setSelectedBulkId}
             onSortChange={setBulkSortBy}
+            view={bulkView}
+            onViewChange={setBulkView}
+            pairs={suspiciousPairs}
+            totalPairs={bulkPairs?.length ?? 0}
+            selectedPair={selectedPair}
+            onSelectPair={setSelectedPairKey}
+            onExportCsv={handleExportCsv}
           />
         ) : (
           <PlaceholderPanel
             title="Bulk results pending"
-            description="Upload Python files and run Analyze to see batched comparisons."
+            description={`Upload ${languageConfig.label} files and run Analyze to see batched comparisons.`}
           />
         )
       )}
 
-      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="flex w-full flex-wrap gap-2 rounded-full bg-white/5 p-1">
-          <TabsTrigger value="plagiarism" disabled={mode === "single" ? !hasAnalysis : !selectedBulkResult}>
-            Plagiarism
-          </TabsTrigger>
-          <TabsTrigger value="quality" disabled={mode === "single" ? !hasAnalysis : !selectedBulkResult}>
-            Code Quality
-          </TabsTrigger>
-          <TabsTrigger value="ast" disabled={mode === "single" ? !hasAnalysis : !selectedBulkResult}>
-            AST Visualization
-          </TabsTrigger>
-          <TabsTrigger value="normalized" disabled={mode === "single" ? !hasAnalysis : !selectedBulkResult}>
-            Normalized Code
-          </TabsTrigger>
-        </TabsList>
-        <TabsContent value="plagiarism">
-          {mode === "single" ? (
-            hasAnalysis && analysis ? (
-              <SimilarityResultPanel
-                similarityPercent={analysis.similarityPercent}
-                riskLevel={analysis.riskLevel}
-                semanticSim={analysis.semanticSimilarity}
-                structureSim={analysis.astSimilarity}
-                tokenSim={analysis.tokenSimilarity}
-                explanation={analysis.explanation}
-                animateKey={activeTab}
-              />
-            ) : (
-              <PlaceholderPanel
-                title="AI verdict pending"
-                description="Paste code on both sides and press Analyze to see similarity, risk level, and semantic scores."
-              />
-            )
-          ) : selectedBulkResult ? (
-            <SimilarityResultPanel
-              similarityPercent={selectedBulkResult.similarityPercent}
-              riskLevel={selectedBulkResult.riskLevel}
-              semanticSim={selectedBulkResult.semanticSimilarity}
-              structureSim={selectedBulkResult.astSimilarity}
-              tokenSim={selectedBulkResult.tokenSimilarity}
-              explanation={selectedBulkResult.explanation}
-              animateKey={`${activeTab}-${selectedBulkResult.id}`}
-            />
-          ) : (
-            <PlaceholderPanel
-              title="No submission selected"
-              description="Upload files, pick one from the dropdowns, and rerun Analyze to view its verdict."
-            />
-          )}
-        </TabsContent>
-        <TabsContent value="quality">
-          {mode === "single" ? (
-            hasAnalysis && analysis ? (
-              <div className="space-y-6">
-                <QualitySummary
-                  score={analysis.qualityScore ?? undefined}
-                  label={analysis.qualityLabel ?? undefined}
-                  explanation={analysis.qualityExplanation ?? undefined}
+      {showPairwise && bulkPairs && bulkPairs.length > 0 && (
+        <SimilarityHeatmap
+          ids={bulkSubmissionIds}
+          pairs={bulkPairs}
+          selectedKey={selectedPair?.key ?? null}
+          onSelectPair={setSelectedPairKey}
+        />
+      )}
+
+      {showPairwise && (
+        selectedPair ? (
+          <PairComparisonPanel
+            leftId={selectedPair.leftId}
+            rightId={selectedPair.rightId}
+            leftCode={bulkCodeById.get(selectedPair.leftId) ?? ""}
+            rightCode={bulkCodeById.get(selectedPair.rightId) ?? ""}
+            similarityPercent={selectedPair.similarityPercent}
+            riskLevel={selectedPair.riskLevel}
+            semanticSimilarity={selectedPair.semanticSimilarity}
+            astSimilarity={selectedPair.astSimilarity}
+            tokenSimilarity={selectedPair.tokenSimilarity}
+            language={language}
+          />
+        ) : (
+          <PlaceholderPanel
+            title="No submission pairs"
+            description="Pairwise collusion checks need at least two submissions in the batch."
+          />
+        )
+      )}
+
+      {!showPairwise && (
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList className="flex w-full flex-wrap gap-2 rounded-full bg-white/5 p-1">
+            <TabsTrigger value="plagiarism" disabled={mode === "single" ? !hasAnalysis : !selectedBulkResult}>
+              Plagiarism
+            </TabsTrigger>
+            <TabsTrigger value="quality" disabled={mode === "single" ? !hasAnalysis : !selectedBulkResult}>
+              Code Quality
+            </TabsTrigger>
+            <TabsTrigger value="ast" disabled={mode === "single" ? !hasAnalysis : !selectedBulkResult}>
+              AST Visualization
+            </TabsTrigger>
+            <TabsTrigger value="normalized" disabled={mode === "single" ? !hasAnalysis : !selectedBulkResult}>
+              Normalized Code
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="plagiarism">
+            {mode === "single" ? (
+              hasAnalysis && analysis ? (
+                <SimilarityResultPanel
+                  similarityPercent={analysis.similarityPercent}
+                  riskLevel={analysis.riskLevel}
+                  semanticSim={analysis.semanticSimilarity}
+                  structureSim={analysis.astSimilarity}
+                  tokenSim={analysis.tokenSimilarity}
+                  explanation={analysis.explanation}
                   animateKey={activeTab}
                 />
-                <motion.div className="glass-panel grid gap-6 rounded-3xl p-8 md:grid-cols-2" layout>
-                  {metricPanels(analysis.referenceMetrics, analysis.submissionMetrics).map((panel) => (
-                    <MetricPanelCard key={panel.label} panel={panel} animateKey={activeTab} />
-                  ))}
-                </motion.div>
-              </div>
-            ) : (
-              <PlaceholderPanel
-                title="Metrics awaiting analysis"
-                description="Once you run the comparison, we will compute LOC, cyclomatic complexity, nesting depth, and more for each code sample."
-              />
-            )
-          ) : selectedBulkResult ? (
-            selectedBulkResult.qualityScore !== undefined ? (
-              <div className="space-y-6">
-                <QualitySummary
-                  score={selectedBulkResult.qualityScore}
-                  label={selectedBulkResult.qualityLabel}
-                  explanation={buildBulkQualityExplanation(selectedBulkResult)}
-                  animateKey={`${activeTab}-${selectedBulkResult.id}`}
+              ) : (
+                <PlaceholderPanel
+                  title="AI verdict pending"
+                  description="Paste code on both sides and press Analyze to see similarity, risk level, and semantic scores."
                 />
-                {selectedBulkResult.submissionMetrics ? (
-                  <motion.div className="glass-panel rounded-3xl p-6" layout>
-                    <p className="text-xs uppercase tracking-[0.4em] text-white/50">Submission metrics</p>
-                    <dl className="mt-4 grid gap-4 md:grid-cols-2">
-                      {buildMetricEntries(selectedBulkResult.submissionMetrics).map((metric) => (
-                        <div
-                          key={`bulk-${selectedBulkResult.id}-${metric.label}`}
-                          className="flex items-center justify-between rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-white/80"
-                        >
-                          <dt className="text-xs uppercase tracking-[0.4em] text-white/50">{metric.label}</dt>
-                          <dd className="text-lg font-semibold text-cyan-100">{formatMetricValue(metric.value)}</dd>
-                        </div>
-                      ))}
-                    </dl>
-                  </motion.div>
-                ) : (
-                  <motion.div className="glass-panel rounded-3xl p-6" layout>
-                    <p className="text-xs uppercase tracking-[0.4em] text-white/50">Submission metrics</p>
-                    <p className="text-sm text-white/60">No metrics returned for this submission.</p>
-                  </motion.div>
-                )}
-              </div>
-            ) : (
-              <PlaceholderPanel
-                title="Quality score unavailable"
-                description="This submission did not include a code quality score in the bulk response."
+              )
+            ) : selectedBulkResult ? (
+              <SimilarityResultPanel
+                similarityPercent={selectedBulkResult.similarityPercent}
+                riskLevel={selectedBulkResult.riskLevel}
+                semanticSim={selectedBulkResult.semanticSimilarity}
+                structureSim={selectedBulkResult.astSimilarity}
+                tokenSim={selectedBulkResult.tokenSimilarity}
+                explanation={selectedBulkResult.explanation}
+                animateKey={`${activeTab}-${selectedBulkResult.id}`}
               />
-            )
-          ) : (
-            <PlaceholderPanel
-              title="No submission selected"
-              description="Upload files, pick one from the dropdowns, and rerun Analyze to inspect quality."
-            />
-          )}
-        </TabsContent>
-        <TabsContent value="ast">
-          {mode === "single" ? (
-            hasAnalysis && analysis ? (
-              <Tabs defaultValue="reference" className="space-y-4">
-                <TabsList className="w-full rounded-full bg-white/5">
-                  <TabsTrigger value="reference">Reference AST</TabsTrigger>
-                  <TabsTrigger value="submission">Submission AST</TabsTrigger>
-                </TabsList>
-                <TabsContent value="reference">
-                  <ASTVisualizer nodes={analysis.referenceAst} title="Reference AST" subtitle="Live" />
-                </TabsContent>
-                <TabsContent value="submission">
-                  <ASTVisualizer nodes={analysis.submissionAst} title="Submission AST" subtitle="Live" />
-                </TabsContent>
-              </Tabs>
             ) : (
               <PlaceholderPanel
-                title="Visual tree unavailable"
-                description="Run the analyzer to generate AST graphs with zoom and pan support."
-              />
-            )
-          ) : selectedBulkResult ? (
-            selectedBulkResult.submissionAst.length ? (
-              <ASTVisualizer
-                nodes={selectedBulkResult.submissionAst}
-                title="Submission AST"
-                subtitle={`Bulk · ${selectedBulkResult.id}`}
+                title="No submission selected"
+                description="Upload files, pick one from the dropdowns, and rerun Analyze to view its verdict."
               />
+            )}
+          </TabsContent>
+          <TabsContent value="quality">
+            {mode === "single" ? (
+              hasAnalysis && analysis ? (
+                <div className="space-y-6">
+                  <QualitySummary
+                    score={analysis.qualityScore ?? undefined}
+                    label={analysis.qualityLabel ?? undefined}
+                    explanation={analysis.qualityExplanation ?? undefined}
+                    animateKey={activeTab}
+                  />
+                  <motion.div className="glass-panel grid gap-6 rounded-3xl p-8 md:grid-cols-2" layout>
+                    {metricPanels(analysis.referenceMetrics, analysis.submissionMetrics).map((panel) => (
+                      <MetricPanelCard key={panel.label} panel={panel} animateKey={activeTab} />
+                    ))}
+                  </motion.div>
+                </div>
+              ) : (
+                <PlaceholderPanel
+                  title="Metrics awaiting analysis"
+                  description="Once you run the comparison, we will compute LOC, cyclomatic complexity, nesting depth, and more for each code sample."
+                />
+              )
+            ) : selectedBulkResult ? (
+              selectedBulkResult.qualityScore !== undefined ? (
+                <div className="space-y-6">
+                  <QualitySummary
+                    score={selectedBulkResult.qualityScore}
+                    label={selectedBulkResult.qualityLabel}
+                    explanation={buildBulkQualityExplanation(selectedBulkResult)}
+                    animateKey={`${activeTab}-${selectedBulkResult.id}`}
+                  />
+                  {selectedBulkResult.submissionMetrics ? (
+                    <motion.div className="glass-panel rounded-3xl p-6" layout>
+                      <p className="text-xs uppercase tracking-[0.4em] text-white/50">Submission metrics</p>
+                      <dl className="mt-4 grid gap-4 md:grid-cols-2">
+                        {buildMetricEntries(selectedBulkResult.submissionMetrics).map((metric) => (
+                          <div
+                            key={`bulk-${selectedBulkResult.id}-${metric.label}`}
+                            className="flex items-center justify-between rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-white/80"
+                          >
+                            <dt className="text-xs uppercase tracking-[0.4em] text-white/50">{metric.label}</dt>
+                            <dd className="text-lg font-semibold text-cyan-100">{formatMetricValue(metric.value)}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    </motion.div>
+                  ) : (
+                    <motion.div className="glass-panel rounded-3xl p-6" layout>
+                      <p className="text-xs uppercase tracking-[0.4em] text-white/50">Submission metrics</p>
+                      <p className="text-sm text-white/60">No metrics returned for this submission.</p>
+                    </motion.div>
+                  )}
+                </div>
+              ) : (
+                <PlaceholderPanel
+                  title="Quality score unavailable"
+                  description="This submission did not include a code quality score in the bulk response."
+                />
+              )
             ) : (
               <PlaceholderPanel
-                title="AST tree unavailable"
-                description="This bulk response did not include a submission AST payload."
-              />
-            )
-          ) : (
-            <PlaceholderPanel
-              title="No submission selected"
-              description="Upload files, pick one from the dropdowns, and rerun Analyze to inspect ASTs."
-            />
-          )}
-        </TabsContent>
-        <TabsContent value="normalized">
-          {mode === "single" ? (
-            hasAnalysis && analysis ? (
-              <NormalizedCodePanel
-                referenceCode={analysis.normalizedReference}
-                submissionCode={analysis.normalizedSubmission}
-                language={editorLanguage}
+                title="No submission selected"
+                description="Upload files, pick one from the dropdowns, and rerun Analyze to inspect quality."
               />
+            )}
+          </TabsContent>
+          <TabsContent value="ast">
+            {mode === "single" ? (
+              hasAnalysis && analysis ? (
+                <Tabs defaultValue="reference" className="space-y-4">
+                  <TabsList className="w-full rounded-full bg-white/5">
+                    <TabsTrigger value="reference">Reference AST</TabsTrigger>
+                    <TabsTrigger value="submission">Submission AST</TabsTrigger>
+                    <TabsTrigger value="diff">Structural diff</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="reference">
+                    <ASTVisualizer nodes={analysis.referenceAst} title="Reference AST" subtitle="Live" />
+                  </TabsContent>
+                  <TabsContent value="submission">
+                    <ASTVisualizer nodes={analysis.submissionAst} title="Submission AST" subtitle="Live" />
+                  </TabsContent>
+                  <TabsContent value="diff">
+                    <ASTVisualizer
+                      nodes={analysis.referenceAst}
+                      compareTo={analysis.submissionAst}
+                      title="AST diff"
+                      subtitle="Reference ↔ submission"
+                      emptyMessage="Neither side produced an AST."
+                    />
+                  </TabsContent>
+                </Tabs>
+              ) : (
+                <PlaceholderPanel
+                  title="Visual tree unavailable"
+                  description="Run the analyzer to generate AST graphs with zoom and pan support."
+                />
+              )
+            ) : selectedBulkResult ? (
+              selectedBulkResult.submissionAst.length ? (
+                <ASTVisualizer
+                  nodes={selectedBulkResult.submissionAst}
+                  title="Submission AST"
+                  subtitle={`Bulk · ${selectedBulkResult.id}`}
+                />
+              ) : (
+                <PlaceholderPanel
+                  title="AST tree unavailable"
+                  description="This bulk response did not include a submission AST payload."
+                />
+              )
             ) : (
               <PlaceholderPanel
-                title="Normalized view empty"
-                description="We will display canonicalized source for both files after running the comparison."
-              />
-            )
-          ) : selectedBulkResult ? (
-            selectedBulkResult.normalizedSubmission ? (
-              <NormalizedCodePanel
-                referenceCode={codeA}
-                submissionCode={selectedBulkResult.normalizedSubmission}
-                language={editorLanguage}
+                title="No submission selected"
+                description="Upload files, pick one from the dropdowns, and rerun Analyze to inspect ASTs."
               />
+            )}
+          </TabsContent>
+          <TabsContent value="normalized">
+            {mode === "single" ? (
+              hasAnalysis && analysis ? (
+                <NormalizedCodePanel
+                  referenceCode={analysis.normalizedReference}
+                  submissionCode={analysis.normalizedSubmission}
+                  language={language}
+                />
+              ) : (
+                <PlaceholderPanel
+                  title="Normalized view empty"
+                  description="We will display canonicalized source for both files after running the comparison."
+                />
+              )
+            ) : selectedBulkResult ? (
+              selectedBulkResult.normalizedReference && selectedBulkResult.normalizedSubmission ? (
+                <NormalizedCodePanel
+                  referenceCode={selectedBulkResult.normalizedReference}
+                  submissionCode={selectedBulkResult.normalizedSubmission}
+                  language={language}
+                />
+              ) : (
+                <PlaceholderPanel
+                  title="Normalized view unavailable"
+                  description="This bulk response did not include normalized code output."
+                />
+              )
             ) : (
               <PlaceholderPanel
-                title="Normalized view unavailable"
-                description="This bulk response did not include normalized code output."
+                title="No submission selected"
+                description="Upload files, pick one from the dropdowns, and rerun Analyze to inspect normalized code."
               />
-            )
-          ) : (
-            <PlaceholderPanel
-              title="No submission selected"
-              description="Upload files, pick one from the dropdowns, and rerun Analyze to inspect normalized code."
-            />
-          )}
-        </TabsContent>
-      </Tabs>
+            )}
+          </TabsContent>
+        </Tabs>
+      )}
     </div>
   );
 }
@@ -826,28 +1490,79 @@ function BulkResultsControls({
   selectedId,
   onSelect,
   onSortChange,
+  view,
+  onViewChange,
+  pairs,
+  totalPairs,
+  selectedPair,
+  onSelectPair,
+  onExportCsv,
 }: {
   results: BulkResultView[];
   sortBy: SortOption;
   selectedId: string;
   onSelect: (id: string) => void;
   onSortChange: (value: SortOption) => void;
+  view: BulkView;
+  onViewChange: (value: BulkView) => void;
+  pairs: BulkPairView[];
+  totalPairs: number;
+  selectedPair: BulkPairView | null;
+  onSelectPair: (key: string) => void;
+  onExportCsv: () => void;
 }) {
   if (!results.length) return null;
   return (
     <div className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5 p-5 shadow-[0_0_55px_rgba(14,165,233,0.12)] md:flex-row md:items-center md:justify-between">
-      <div>
-        <p className="text-xs uppercase tracking-[0.4em] text-white/60">Batch submissions</p>
-        <p className="text-sm text-white/60">{results.length} compared file{results.length === 1 ? "" : "s"}</p>
+      <div className="flex flex-wrap items-center gap-4">
+        <div>
+          <p className="text-xs uppercase tracking-[0.4em] text-white/60">Batch submissions</p>
+          <p className="text-sm text-white/60">
+            {view === "reference"
+              ? `${results.length} compared file${results.length === 1 ? "" : "s"}`
+              : `${pairs.length} of ${totalPairs} pair${totalPairs === 1 ? "" : "s"} listed by similarity`}
+          </p>
+        </div>
+        <div className="inline-flex rounded-full bg-black/30 p-1">
+          {(Object.keys(bulkViewLabels) as BulkView[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onViewChange(option)}
+              className={`rounded-full px-4 py-1.5 text-xs font-semibold transition ${view === option ? "bg-white text-black" : "text-white/70 hover:text-white"}`}
+            >
+              {bulkViewLabels[option]}
+            </button>
+          ))}
+        </div>
       </div>
       <div className="flex w-full flex-col gap-3 sm:flex-row md:w-auto">
-        <SortDropdown sortBy={sortBy} onChange={onSortChange} />
-        <SubmissionDropdown sortBy={sortBy} results={results} selectedId={selectedId} onChange={onSelect} />
+        {view === "reference" ? (
+          <>
+            <SortDropdown sortBy={sortBy} onChange={onSortChange} />
+            <SubmissionDropdown sortBy={sortBy} results={results} selectedId={selectedId} onChange={onSelect} />
+            <button
+              type="button"
+              onClick={onExportCsv}
+              title="Download every result in the current order as CSV"
+              className="rounded-2xl border border-white/10 bg-black/30 px-4 py-2 text-sm font-semibold text-white/80 transition hover:border-cyan-300/60 hover:text-cyan-100"
+            >
+              Export CSV
+            </button>
+          </>
+        ) : (
+          <PairDropdown pairs={pairs} selected={selectedPair} onChange={onSelectPair} />
+        )}
       </div>
     </div>
   );
 }
 
+const bulkViewLabels: Record<BulkView, string> = {
+  reference: "Vs reference",
+  pairwise: "Pairwise",
+};
+
 function SortDropdown({ sortBy, onChange }: { sortBy: SortOption; onChange: (value: SortOption) => void }) {
   const [open, setOpen] = useState(false);
   const containerRef = useRef<HTMLDivElement | null>(null);
@@ -980,6 +1695,78 @@ function SubmissionDropdown({
   );
 }
 
+function PairDropdown({
+  pairs,
+  selected,
+  onChange,
+}: {
+  pairs: BulkPairView[];
+  selected: BulkPairView | null;
+  onChange: (value: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const handler = (event: PointerEvent) => {
+      if (!containerRef.current) return;
+      if (!containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    window.addEventListener("pointerdown", handler);
+    return () => window.removeEventListener("pointerdown", handler);
+  }, []);
+
+  return (
+    <div ref={containerRef} className="relative min-w-[320px]">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        disabled={!pairs.length}
+        className="flex w-full items-center gap-3 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-left text-white shadow-[0_12px_45px_rgba(15,23,42,0.35)] disabled:opacity-50"
+      >
+        <div className="flex-1">
+          <p className="text-[10px] uppercase tracking-[0.5em] text-white/50">Suspicious pair</p>
+          <p className="truncate text-sm font-semibold text-white">
+            {selected ? `${selected.leftId} ↔ ${selected.rightId}` : "No pairs to review"}
+          </p>
+        </div>
+        <ScoreChip metric="plagiarism" value={selected?.similarityPercent} />
+        <span className={`text-lg transition-transform ${open ? "rotate-180" : ""}`}>⌄</span>
+      </button>
+      <AnimatePresence>
+        {open && (
+          <motion.ul
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            className="absolute right-0 top-full z-20 mt-2 max-h-80 w-full overflow-auto rounded-2xl border border-white/10 bg-black/70 backdrop-blur"
+          >
+            {pairs.map((pair) => (
+              <li key={pair.key}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    onChange(pair.key);
+                    setOpen(false);
+                  }}
+                  className={`flex w-full items-center gap-3 px-4 py-3 text-left transition hover:bg-white/5 ${selected?.key === pair.key ? "bg-white/5" : ""}`}
+                >
+                  <span className="flex-1 truncate text-sm font-semibold text-white">
+                    {pair.leftId} ↔ {pair.rightId}
+                  </span>
+                  <ScoreChip metric="plagiarism" value={pair.similarityPercent} />
+                </button>
+              </li>
+            ))}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
 function ScoreChip({
   metric,
   value,
@@ -997,28 +1784,9 @@ function ScoreChip({
   );
 }
 
-function normalizePercent(value: unknown): number | null {
-  const numeric = coerceFinite(value);
-  if (numeric === null) return null;
-  const percent = numeric <= 1 ? numeric * 100 : numeric;
-  return clampPercent(percent);
-}
-
-function coerceNumber(value: unknown): number {
-  return coerceFinite(value) ?? 0;
-}
-
-function coerceFinite(value: unknown): number | null {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value;
-  }
-  if (typeof value === "string") {
-    const parsed = Number(value);
-    if (Number.isFinite(parsed)) {
-      return parsed;
-    }
-  }
-  return null;
+// Route handlers validate analyzer payloads and always report scores as fractions in [0, 1].
+function toPercent(fraction: number) {
+  return clampPercent(fraction * 100);
 }
 
 function sortBulkResults(results: BulkResultView[], sortBy: SortOption) {
@@ -1138,6 +1906,32 @@ function formatMetricValue(value: number) {
   return value.toFixed(2);
 }
 
+const DRAFT_SAVE_DELAY_MS = 800;
+const NO_MATCHES: MatchedRegion[] = [];
+
+const CSV_METRIC_KEYS = ["loc", "cyclomatic", "max_nesting", "num_functions"];
+
+// Rows follow the order of `results`, so the export matches the list the reviewer is looking at.
+function bulkResultsCsv(results: BulkResultView[]) {
+  const metricKeys = [
+    ...new Set([...CSV_METRIC_KEYS, ...results.flatMap((result) => Object.keys(result.submissionMetrics ?? {}))]),
+  ];
+  const percent = (value: number) => Math.round(value * 100) / 100;
+  const columns: CsvColumn<BulkResultView>[] = [
+    { header: "id", value: (result) => result.id },
+    { header: "plagiarism_percent", value: (result) => percent(result.similarityPercent) },
+    { header: "risk_level", value: (result) => result.riskLevel },
+    { header: "semantic_similarity_percent", value: (result) => percent(toPercent(result.semanticSimilarity)) },
+    { header: "ast_similarity_percent", value: (result) => percent(toPercent(result.astSimilarity)) },
+    { header: "token_similarity_percent", value: (result) => percent(toPercent(result.tokenSimilarity)) },
+    { header: "quality_score", value: (result) => (result.qualityScore === undefined ? null : percent(result.qualityScore)) },
+    { header: "quality_label", value: (result) => result.qualityLabel },
+    { header: "explanation", value: (result) => result.explanation },
+    ...metricKeys.map((key) => ({ header: `metric_${key}`, value: (result: BulkResultView) => result.submissionMetrics?.[key] })),
+  ];
+  return toCsv(columns, results);
+}
+
 function buildBulkSubmissionPayload(fileMap: Record<string, string>): BulkSubmissionInput[] {
   const registry = new Set<string>();
   const payload: BulkSubmissionInput[] = [];
@@ -1146,7 +1940,7 @@ function buildBulkSubmissionPayload(fileMap: Record<string, string>): BulkSubmis
     if (!code.trim()) return;
     const baseId = deriveSubmissionIdFromFilename(filename);
     const uniqueId = reserveUniqueSubmissionId(baseId, registry);
-    payload.push({ id: uniqueId, code });
+    payload.push({ id: uniqueId, code, filename });
   });
 
   return payload;
@@ -1173,24 +1967,54 @@ function reserveUniqueSubmissionId(baseId: string, registry: Set<string>) {
   return unique;
 }
 
+function patchProgressEntry(
+  entries: BulkProgressEntry[] | null,
+  id: string,
+  patch: Partial<BulkProgressEntry>,
+): BulkProgressEntry[] | null {
+  return entries?.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)) ?? null;
+}
+
 function mapBulkResults(results: BulkCompareResult[]): BulkResultView[] {
   return results.map((result) => ({
     id: result.id,
-    similarityPercent: normalizePercent(result.plagiarism_score) ?? 0,
+    similarityPercent: toPercent(result.plagiarism_score),
     riskLevel: result.risk_level || "pending",
-    semanticSimilarity: coerceNumber(result.semantic_similarity),
-    astSimilarity: coerceNumber(result.ast_similarity),
-    tokenSimilarity: coerceNumber(result.token_similarity),
+    semanticSimilarity: result.semantic_similarity,
+    astSimilarity: result.ast_similarity,
+    tokenSimilarity: result.token_similarity,
     explanation: result.explanation,
-    qualityScore: normalizePercent(result.quality_score) ?? undefined,
+    qualityScore: result.quality_score === undefined ? undefined : toPercent(result.quality_score),
     qualityLabel: result.quality_label,
     qualityExplanation: result.quality_explanation,
-    submissionAst: coerceAst(result.submission_ast),
+    submissionAst: result.submission_ast ?? [],
+    normalizedReference: result.normalized_reference_code ?? undefined,
     normalizedSubmission: result.normalized_code ?? undefined,
     submissionMetrics: result.metrics ?? undefined,
   }));
 }
 
+function mapBulkPairs(pairs: BulkPairResult[]): BulkPairView[] {
+  return pairs.map((pair) => ({
+    key: `${pair.left_id}::${pair.right_id}`,
+    leftId: pair.left_id,
+    rightId: pair.right_id,
+    similarityPercent: toPercent(pair.plagiarism_score),
+    riskLevel: pair.risk_level || "pending",
+    semanticSimilarity: pair.semantic_similarity,
+    astSimilarity: pair.ast_similarity,
+    tokenSimilarity: pair.token_similarity,
+  }));
+}
+
+const MAX_LISTED_PAIRS = 100;
+const FALLBACK_LISTED_PAIRS = 10;
+
+function selectSuspiciousPairs(pairs: BulkPairView[]) {
+  const flagged = pairs.filter((pair) => pair.riskLevel.toLowerCase() !== "low");
+  return (flagged.length ? flagged : pairs.slice(0, FALLBACK_LISTED_PAIRS)).slice(0, MAX_LISTED_PAIRS);
+}
+
 function getQualityLabelClasses(label?: string) {
   switch ((label || "").toLowerCase()) {
     case "excellent":
@@ -1217,25 +2041,32 @@ function TypingCursor({ text }: { text: string }) {
   );
 }
 
-function mapToAnalysis(response: CompareCodesResponse): AnalysisResult {
-  const percentRaw = response.plagiarism_score ?? 0;
-  const similarityPercent = percentRaw <= 1 ? Math.round(percentRaw * 100) : Math.round(percentRaw);
+function mapToAnalysis(
+  response: CompareCodesResponse,
+  matches: MatchedRegion[],
+  inputs: AnalysisResult["inputs"],
+): AnalysisResult {
   return {
-    similarityPercent: clampPercent(similarityPercent),
+    inputs,
+    similarityPercent: Math.round(toPercent(response.plagiarism_score)),
     riskLevel: response.risk_level || "pending",
-    semanticSimilarity: response.semantic_similarity ?? 0,
-    astSimilarity: response.ast_similarity ?? 0,
-    tokenSimilarity: response.token_similarity ?? 0,
+    semanticSimilarity: response.semantic_similarity,
+    astSimilarity: response.ast_similarity,
+    tokenSimilarity: response.token_similarity,
     explanation: response.explanation || "No explanation returned by the analyzer.",
     referenceMetrics: response.reference?.metrics,
     submissionMetrics: response.submission?.metrics,
     normalizedReference: response.normalized?.reference_code,
     normalizedSubmission: response.normalized?.submission_code,
-    referenceAst: coerceAst(response.reference?.ast),
-    submissionAst: coerceAst(response.submission?.ast),
-    qualityScore: response.submission_quality_score,
+    referenceAst: response.reference?.ast ?? [],
+    submissionAst: response.submission?.ast ?? [],
+    qualityScore:
+      response.submission_quality_score === undefined ? undefined : toPercent(response.submission_quality_score),
     qualityLabel: response.submission_quality_label,
     qualityExplanation: response.submission_quality_explanation,
+    engine: response.engine ?? "remote",
+    fallbackReason: response.fallback_reason,
+    matches,
   };
 }
 
@@ -1243,44 +2074,3 @@ function clampPercent(value: number) {
   if (Number.isNaN(value)) return 0;
   return Math.max(0, Math.min(100, value));
 }
-
-function coerceAst(input: unknown): ASTNode[] {
-  if (!input) return [];
-  if (Array.isArray(input)) {
-    return input.map(coerceAstNode).filter(Boolean) as ASTNode[];
-  }
-  if (typeof input === "object") {
-    if (hasAstIdentity(input)) {
-      const single = coerceAstNode(input);
-      return single ? [single] : [];
-    }
-    const record = input as Record<string, unknown>;
-    return Object.values(record)
-      .flatMap((value) => coerceAst(value))
-      .filter(Boolean) as ASTNode[];
-  }
-  return [];
-}
-
-function coerceAstNode(input: unknown): ASTNode | null {
-  if (!input || typeof input !== "object") return null;
-  const record = input as Record<string, unknown>;
-  const node: ASTNode = {
-    type: String(record.type ?? record.kind ?? record.name ?? "Node"),
-  };
-  if (typeof record.value === "string") {
-    node.value = record.value;
-  } else if (typeof record.name === "string" && !node.value) {
-    node.value = record.name;
-  }
-  const childrenSource = record.children ?? record.body ?? record.args ?? null;
-  const children = coerceAst(childrenSource);
-  if (children.length) {
-    node.children = children;
-  }
-  return node;
-}
-
-function hasAstIdentity(input: object) {
-  return "type" in input || "name" in input || "kind" in input;
-}
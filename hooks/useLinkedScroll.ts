@@ -0,0 +1,67 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { counterpartLine, type MatchedRegion } from "@/lib/matchedRegions";
+
+type Side = "reference" | "submission";
+
+type LineCounts = Record<Side, number>;
+
+type ScrollSource = {
+  side: Side;
+  line: number;
+  /** Line counts when the scroll happened; edits afterwards must not re-map it. */
+  lineCounts: LineCounts;
+};
+
+type LinkedScrollProps = {
+  onScrollLine?: (line: number) => void;
+  externalScrollLine?: number;
+};
+
+/**
+ * Scroll props for a reference/submission pair of `CodeEditorWrapper`s. The editor the user scrolls
+ * drives the other one through `counterpartLine`, so matched blocks stay side by side.
+ */
+export function useLinkedScroll(
+  matches: MatchedRegion[],
+  reference: string,
+  submission: string,
+  enabled: boolean,
+): Record<Side, LinkedScrollProps> {
+  const [source, setSource] = useState<ScrollSource | null>(null);
+  const lineCounts = useRef<LineCounts>({ reference: 1, submission: 1 });
+  useEffect(() => {
+    lineCounts.current = { reference: countLines(reference), submission: countLines(submission) };
+  }, [reference, submission]);
+
+  const handleReferenceScroll = useCallback(
+    (line: number) => setSource({ side: "reference", line, lineCounts: lineCounts.current }),
+    [],
+  );
+  const handleSubmissionScroll = useCallback(
+    (line: number) => setSource({ side: "submission", line, lineCounts: lineCounts.current }),
+    [],
+  );
+
+  const mapped = useMemo(
+    () => (enabled && source ? counterpartLine(source.line, matches, source.side, source.lineCounts) : undefined),
+    [enabled, source, matches],
+  );
+
+  if (!enabled) return { reference: {}, submission: {} };
+  return {
+    reference: {
+      onScrollLine: handleReferenceScroll,
+      externalScrollLine: source?.side === "submission" ? mapped : undefined,
+    },
+    submission: {
+      onScrollLine: handleSubmissionScroll,
+      externalScrollLine: source?.side === "reference" ? mapped : undefined,
+    },
+  };
+}
+
+function countLines(code: string) {
+  return code.split("\n").length;
+}
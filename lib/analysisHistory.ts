@@ -0,0 +1,169 @@
+import { sha256Hex } from "@/lib/contentHash";
+import type { LanguageId } from "@/lib/languages";
+import { readSession, type AnalysisSession, type SessionParseResult } from "@/lib/sessionFile";
+
+// Browser-only persistence in IndexedDB: a capped list of past analyses (stored as sessions, see
+// lib/sessionFile.ts) and one autosaved draft of the checker inputs.
+
+export type HistorySummary = {
+  id: string;
+  savedAt: string;
+  mode: "single" | "bulk";
+  language: LanguageId;
+  /** Highest plagiarism score of the run, as a fraction. */
+  topScore: number | null;
+  submissions: number;
+  hashes: {
+    reference: string;
+    /** The submission's SHA-256, or for bulk runs a SHA-256 over the sorted per-file hashes. */
+    submissions: string;
+  };
+};
+
+export type WorkspaceDraft = {
+  savedAt: string;
+  mode: "single" | "bulk";
+  language: LanguageId;
+  editors: { reference: string; submission: string };
+  uploadedFiles: Record<string, string>;
+};
+
+const DB_NAME = "plagify";
+const DB_VERSION = 1;
+const SUMMARIES = "historySummaries";
+const SESSIONS = "historySessions";
+const DRAFTS = "drafts";
+const DRAFT_KEY = "checker";
+export const MAX_HISTORY_ENTRIES = 50;
+
+let connection: Promise<IDBDatabase> | null = null;
+
+export async function addHistoryEntry(session: AnalysisSession): Promise<HistorySummary> {
+  const summary = await summarizeSession(session);
+  const db = await openDatabase();
+  const stale = (await listHistory()).slice(MAX_HISTORY_ENTRIES - 1);
+  await runTransaction(db, [SUMMARIES, SESSIONS], "readwrite", (tx) => {
+    tx.objectStore(SUMMARIES).put(summary);
+    tx.objectStore(SESSIONS).put(session, summary.id);
+    stale.forEach((entry) => {
+      tx.objectStore(SUMMARIES).delete(entry.id);
+      tx.objectStore(SESSIONS).delete(entry.id);
+    });
+  });
+  return summary;
+}
+
+/** Newest first. */
+export async function listHistory(): Promise<HistorySummary[]> {
+  const db = await openDatabase();
+  const entries = await request<HistorySummary[]>(db.transaction(SUMMARIES).objectStore(SUMMARIES).getAll());
+  return entries.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+export async function loadHistorySession(id: string): Promise<SessionParseResult> {
+  const db = await openDatabase();
+  const stored = await request<unknown>(db.transaction(SESSIONS).objectStore(SESSIONS).get(id));
+  return stored === undefined ? { ok: false, message: "This history entry no longer exists." } : readSession(stored);
+}
+
+export async function deleteHistoryEntry(id: string) {
+  const db = await openDatabase();
+  await runTransaction(db, [SUMMARIES, SESSIONS], "readwrite", (tx) => {
+    tx.objectStore(SUMMARIES).delete(id);
+    tx.objectStore(SESSIONS).delete(id);
+  });
+}
+
+export async function clearHistory() {
+  const db = await openDatabase();
+  await runTransaction(db, [SUMMARIES, SESSIONS], "readwrite", (tx) => {
+    tx.objectStore(SUMMARIES).clear();
+    tx.objectStore(SESSIONS).clear();
+  });
+}
+
+export async function saveDraft(draft: WorkspaceDraft) {
+  const db = await openDatabase();
+  await runTransaction(db, [DRAFTS], "readwrite", (tx) => {
+    tx.objectStore(DRAFTS).put(draft, DRAFT_KEY);
+  });
+}
+
+export async function loadDraft(): Promise<WorkspaceDraft | null> {
+  const db = await openDatabase();
+  const draft = await request<WorkspaceDraft | undefined>(db.transaction(DRAFTS).objectStore(DRAFTS).get(DRAFT_KEY));
+  return draft ?? null;
+}
+
+async function summarizeSession(session: AnalysisSession): Promise<HistorySummary> {
+  const id = `${session.savedAt}-${Math.random().toString(36).slice(2, 8)}`;
+  if (session.bulk) {
+    const { bulk } = session;
+    const fileHashes = await Promise.all(bulk.submissions.map((submission) => sha256Hex(submission.code)));
+    const scores = bulk.response.results.filter((result) => result.ok).map((result) => result.plagiarism_score);
+    return {
+      id,
+      savedAt: session.savedAt,
+      mode: "bulk",
+      language: bulk.language,
+      topScore: scores.length ? Math.max(...scores) : null,
+      submissions: bulk.submissions.length,
+      hashes: { reference: await sha256Hex(bulk.reference), submissions: await sha256Hex(fileHashes.sort().join("\n")) },
+    };
+  }
+
+  const inputs = session.single?.inputs ?? { language: session.language, ...session.editors };
+  return {
+    id,
+    savedAt: session.savedAt,
+    mode: "single",
+    language: inputs.language,
+    topScore: session.single?.response.plagiarism_score ?? null,
+    submissions: 1,
+    hashes: { reference: await sha256Hex(inputs.reference), submissions: await sha256Hex(inputs.submission) },
+  };
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available in this browser"));
+  }
+  connection ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      if (!db.objectStoreNames.contains(SUMMARIES)) db.createObjectStore(SUMMARIES, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(SESSIONS)) db.createObjectStore(SESSIONS);
+      if (!db.objectStoreNames.contains(DRAFTS)) db.createObjectStore(DRAFTS);
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error ?? new Error("Unable to open the history database"));
+  }).catch((error) => {
+    // let the next call retry, e.g. after the user leaves private browsing
+    connection = null;
+    throw error;
+  });
+  return connection;
+}
+
+function request<T>(pending: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    pending.onsuccess = () => resolve(pending.result as T);
+    pending.onerror = () => reject(pending.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+function runTransaction(
+  db: IDBDatabase,
+  stores: string[],
+  mode: IDBTransactionMode,
+  body: (tx: IDBTransaction) => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error("IndexedDB transaction failed"));
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+    body(tx);
+  });
+}
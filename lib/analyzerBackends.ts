@@ -0,0 +1,240 @@
+import type { BulkComparePayload, CompareCodesPayload } from "@/lib/apiPlaceholders";
+import { LOCAL_ENGINE_VERSION, bulkCompareLocally, compareLocally } from "@/lib/localSimilarity";
+import type { ScoreScale, ValidationOptions } from "@/lib/responseValidation";
+import {
+  UpstreamError,
+  classifyFetchFailure,
+  createCircuitBreaker,
+  upstreamMessage,
+  withRetries,
+  type CircuitBreaker,
+} from "@/lib/upstreamResilience";
+
+// Server-side only: reads non-public environment configuration for the API routes.
+
+export type AnalyzerBackendKind = "http" | "mock";
+
+export type AnalyzerBackendConfig = {
+  name: string;
+  kind: AnalyzerBackendKind;
+  baseUrl: string;
+  /** Bumping it (`*_VERSION`) invalidates cached results from this backend. */
+  version: string;
+  authHeader?: { name: string; value: string };
+  timeoutMs: number;
+  bulkTimeoutMs: number;
+  /** Total time one call may take across all attempts and backoff (`*_BUDGET_MS`). */
+  budgetMs: number;
+  bulkBudgetMs: number;
+  retries: number;
+  retryBaseMs: number;
+  breakerThreshold: number;
+  breakerCooldownMs: number;
+  /** Score scales the backend uses when its responses do not declare them (`*_SCORE_SCALE`, `*_QUALITY_SCALE`). */
+  scales: ValidationOptions;
+};
+
+export type BackendResponse = {
+  status: number;
+  data: unknown;
+};
+
+export type AnalyzerBackend = {
+  config: AnalyzerBackendConfig;
+  compare: (payload: CompareCodesPayload) => Promise<BackendResponse>;
+  bulkCompare: (payload: BulkComparePayload) => Promise<BackendResponse>;
+};
+
+const HOSTED_BASE_URL = "https://ai-plagiarism-checker-and-quality-scorer.onrender.com";
+const DEFAULT_BACKEND = "hosted";
+const MOCK_BACKEND = "mock";
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_BULK_TIMEOUT_MS = 120_000;
+const DEFAULT_BUDGET_MS = 45_000;
+const DEFAULT_BULK_BUDGET_MS = 150_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_BASE_MS = 300;
+const DEFAULT_BREAKER_THRESHOLD = 5;
+const DEFAULT_BREAKER_COOLDOWN_MS = 30_000;
+
+const breakers = new Map<string, CircuitBreaker>();
+
+export function getAnalyzerBackend(name = activeBackendName()): AnalyzerBackend {
+  const config = resolveBackendConfig(name);
+  return config.kind === "mock" ? createMockBackend(config) : createHttpBackend(config);
+}
+
+export function activeBackendName() {
+  return readEnv("ANALYZER_BACKEND")?.toLowerCase() || DEFAULT_BACKEND;
+}
+
+function resolveBackendConfig(name: string): AnalyzerBackendConfig {
+  const normalized = name.trim().toLowerCase();
+  if (normalized === MOCK_BACKEND) {
+    return {
+      name: MOCK_BACKEND,
+      kind: "mock",
+      baseUrl: "local://mock",
+      version: LOCAL_ENGINE_VERSION,
+      timeoutMs: DEFAULT_TIMEOUT_MS,
+      bulkTimeoutMs: DEFAULT_BULK_TIMEOUT_MS,
+      budgetMs: DEFAULT_BUDGET_MS,
+      bulkBudgetMs: DEFAULT_BULK_BUDGET_MS,
+      retries: 0,
+      retryBaseMs: DEFAULT_RETRY_BASE_MS,
+      breakerThreshold: DEFAULT_BREAKER_THRESHOLD,
+      breakerCooldownMs: DEFAULT_BREAKER_COOLDOWN_MS,
+      // the local engine reports every score as a fraction
+      scales: { scoreScale: "fraction", qualityScale: "fraction" },
+    };
+  }
+
+  const prefix = normalized === DEFAULT_BACKEND ? "ANALYZER" : `ANALYZER_${envKey(normalized)}`;
+  const baseUrl = readEnv(`${prefix}_BASE_URL`) || (normalized === DEFAULT_BACKEND ? HOSTED_BASE_URL : "");
+  if (!baseUrl) {
+    throw new Error(`Analyzer backend "${normalized}" has no ${prefix}_BASE_URL configured`);
+  }
+
+  return {
+    name: normalized,
+    kind: "http",
+    baseUrl: baseUrl.replace(/\/+$/, ""),
+    version: readEnv(`${prefix}_VERSION`) ?? "unversioned",
+    authHeader: parseAuthHeader(readEnv(`${prefix}_AUTH_HEADER`)),
+    timeoutMs: readPositiveInt(`${prefix}_TIMEOUT_MS`) ?? DEFAULT_TIMEOUT_MS,
+    bulkTimeoutMs: readPositiveInt(`${prefix}_BULK_TIMEOUT_MS`) ?? DEFAULT_BULK_TIMEOUT_MS,
+    budgetMs: readPositiveInt(`${prefix}_BUDGET_MS`) ?? DEFAULT_BUDGET_MS,
+    bulkBudgetMs: readPositiveInt(`${prefix}_BULK_BUDGET_MS`) ?? DEFAULT_BULK_BUDGET_MS,
+    retries: readNonNegativeInt(`${prefix}_RETRIES`) ?? DEFAULT_RETRIES,
+    retryBaseMs: readPositiveInt(`${prefix}_RETRY_BASE_MS`) ?? DEFAULT_RETRY_BASE_MS,
+    breakerThreshold: readPositiveInt(`${prefix}_BREAKER_THRESHOLD`) ?? DEFAULT_BREAKER_THRESHOLD,
+    breakerCooldownMs: readPositiveInt(`${prefix}_BREAKER_COOLDOWN_MS`) ?? DEFAULT_BREAKER_COOLDOWN_MS,
+    scales: {
+      scoreScale: readScale(`${prefix}_SCORE_SCALE`),
+      // analyzers report quality out of 100 unless configured otherwise
+      qualityScale: readScale(`${prefix}_QUALITY_SCALE`) ?? "percent",
+    },
+  };
+}
+
+function createHttpBackend(config: AnalyzerBackendConfig): AnalyzerBackend {
+  const breaker = breakerFor(config);
+
+  const attempt = async (path: string, body: unknown, timeoutMs: number): Promise<BackendResponse> => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.authHeader) {
+      headers[config.authHeader.name] = config.authHeader.value;
+    }
+    let response: Response;
+    let text: string;
+    try {
+      response = await fetch(`${config.baseUrl}${path}`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        cache: "no-store",
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      text = await response.text();
+    } catch (error) {
+      throw classifyFetchFailure(error, timeoutMs);
+    }
+    let data: unknown = null;
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch {
+      // leave data as null so callers can surface the parsing failure
+    }
+    if (response.status >= 500) {
+      throw new UpstreamError("UPSTREAM_ERROR", upstreamMessage(data, response.status), {
+        upstreamStatus: response.status,
+        details: data,
+      });
+    }
+    return { status: response.status, data };
+  };
+
+  // Both analyzer endpoints are pure computations over the request body, so retrying a POST is safe.
+  // Every attempt is cut to what is left of `budgetMs`, so a call never outlasts its budget.
+  const post = async (path: string, body: unknown, timeoutMs: number, budgetMs: number): Promise<BackendResponse> => {
+    if (!breaker.tryAcquire()) {
+      throw new UpstreamError("CIRCUIT_OPEN", `Analyzer backend "${config.name}" is unhealthy; retry shortly`, {
+        retryAfterMs: breaker.remainingCooldownMs(),
+      });
+    }
+    const deadline = Date.now() + budgetMs;
+    try {
+      const result = await withRetries(
+        () => attempt(path, body, Math.max(1, Math.min(timeoutMs, deadline - Date.now()))),
+        { retries: config.retries, baseDelayMs: config.retryBaseMs, deadline },
+      );
+      breaker.recordSuccess();
+      return result;
+    } catch (error) {
+      breaker.recordFailure();
+      throw error;
+    }
+  };
+
+  return {
+    config,
+    compare: (payload) => post("/compare", payload, config.timeoutMs, config.budgetMs),
+    bulkCompare: (payload) => post("/bulk-compare", payload, config.bulkTimeoutMs, config.bulkBudgetMs),
+  };
+}
+
+function createMockBackend(config: AnalyzerBackendConfig): AnalyzerBackend {
+  return {
+    config,
+    compare: async (payload) => ({ status: 200, data: compareLocally(payload) }),
+    bulkCompare: async (payload) => ({ status: 200, data: bulkCompareLocally(payload) }),
+  };
+}
+
+function breakerFor(config: AnalyzerBackendConfig) {
+  const existing = breakers.get(config.name);
+  if (existing) return existing;
+  const created = createCircuitBreaker({
+    failureThreshold: config.breakerThreshold,
+    cooldownMs: config.breakerCooldownMs,
+  });
+  breakers.set(config.name, created);
+  return created;
+}
+
+function parseAuthHeader(raw?: string) {
+  if (!raw) return undefined;
+  const separator = raw.indexOf(":");
+  if (separator > 0 && !/\s/.test(raw.slice(0, separator))) {
+    return { name: raw.slice(0, separator).trim(), value: raw.slice(separator + 1).trim() };
+  }
+  return { name: "Authorization", value: raw };
+}
+
+function readPositiveInt(key: string) {
+  const raw = readEnv(key);
+  if (!raw) return undefined;
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function readNonNegativeInt(key: string) {
+  const raw = readEnv(key);
+  if (!raw) return undefined;
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+function readScale(key: string): ScoreScale | undefined {
+  const raw = readEnv(key)?.toLowerCase();
+  return raw === "fraction" || raw === "percent" ? raw : undefined;
+}
+
+function readEnv(key: string) {
+  const value = process.env[key]?.trim();
+  return value ? value : undefined;
+}
+
+function envKey(name: string) {
+  return name.toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { statusForUpstreamError, type UpstreamError, type UpstreamErrorCode } from "@/lib/upstreamResilience";
+
+export type ApiErrorCode = UpstreamErrorCode | "INVALID_REQUEST" | "INTERNAL_ERROR";
+
+export function apiError(
+  code: ApiErrorCode,
+  message: string,
+  status: number,
+  options: { details?: unknown; headers?: HeadersInit } = {},
+) {
+  return NextResponse.json(
+    { ok: false, code, message, ...(options.details === undefined ? {} : { details: options.details }) },
+    { status, headers: options.headers },
+  );
+}
+
+export function upstreamErrorResponse(error: UpstreamError) {
+  const headers: Record<string, string> = {};
+  if (error.retryAfterMs !== undefined) {
+    headers["Retry-After"] = String(Math.max(1, Math.ceil(error.retryAfterMs / 1000)));
+  }
+  return apiError(error.code, error.message, statusForUpstreamError(error), { details: error.details, headers });
+}
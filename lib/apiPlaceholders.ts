@@ -1,3 +1,10 @@
+import type { ASTNode } from "@/lib/ast";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { describeLanguageConflicts, findLanguageConflicts } from "@/lib/languageDetection";
+import type { LanguageId } from "@/lib/languages";
+import { rankSubmissionPairs } from "@/lib/pairwiseSimilarity";
+import { failedBulkResult } from "@/lib/responseValidation";
+
 const API_URL =
   process.env.NEXT_PUBLIC_COMPARE_ENDPOINT?.trim() ||
   "/api/compare";
@@ -6,8 +13,16 @@ const BULK_API_URL =
   process.env.NEXT_PUBLIC_BULK_COMPARE_ENDPOINT?.trim() ||
   "/api/bulk-compare";
 
+const BULK_STREAM_API_URL =
+  process.env.NEXT_PUBLIC_BULK_STREAM_ENDPOINT?.trim() ||
+  "/api/bulk-compare/stream";
+
+const BULK_BATCH_SIZE = readPositiveIntSetting(process.env.NEXT_PUBLIC_BULK_BATCH_SIZE, 25);
+const BULK_BATCH_MAX_CHARS = readPositiveIntSetting(process.env.NEXT_PUBLIC_BULK_BATCH_MAX_CHARS, 1_000_000);
+const BULK_CONCURRENCY = readPositiveIntSetting(process.env.NEXT_PUBLIC_BULK_CONCURRENCY, 2);
+
 export type CompareCodesPayload = {
-  language: "python" | string;
+  language: LanguageId | string;
   reference_code: string;
   submission_code: string;
 };
@@ -20,8 +35,14 @@ export type CodeMetrics = {
   [key: string]: number | undefined;
 };
 
+export type AnalysisEngine = "remote" | "local";
+
+// Scores in analyzer responses are fractions in [0, 1]; the API routes normalize upstream payloads
+// to this convention (see lib/responseValidation.ts).
 export type CompareCodesResponse = {
   ok: boolean;
+  engine?: AnalysisEngine;
+  fallback_reason?: string;
   plagiarism_score: number;
   risk_level: string;
   semantic_similarity: number;
@@ -33,28 +54,34 @@ export type CompareCodesResponse = {
   submission_quality_explanation?: string;
   reference: {
     metrics?: CodeMetrics;
-    ast?: unknown;
+    ast?: ASTNode[];
   };
   submission: {
     metrics?: CodeMetrics;
-    ast?: unknown;
+    ast?: ASTNode[];
   };
   normalized?: {
     reference_code?: string;
     submission_code?: string;
   };
+  code?: string;
   message?: string;
 };
 
 export type BulkSubmissionInput = {
   id: string;
   code: string;
+  /** Original upload name; only used on the client to detect the language. */
+  filename?: string;
 };
 
 export type BulkComparePayload = {
-  language: "python" | string;
+  language: LanguageId | string;
   reference_code: string;
   submissions: BulkSubmissionInput[];
+  pairwise?: boolean;
+  /** Send the batch even when some sources look like another language. */
+  allowMixedLanguages?: boolean;
 };
 
 export type BulkCompareResult = {
@@ -66,11 +93,11 @@ export type BulkCompareResult = {
   ast_similarity: number;
   token_similarity: number;
   explanation: string;
-  quality_score: number;
-  quality_label: string;
-  quality_explanation: string;
-  submission_ast?: unknown;
-  reference_ast?: unknown;
+  quality_score?: number;
+  quality_label?: string;
+  quality_explanation?: string;
+  submission_ast?: ASTNode[];
+  reference_ast?: ASTNode[];
   normalized_code?: string;
   normalized_reference_code?: string;
   metrics?: CodeMetrics;
@@ -78,12 +105,32 @@ export type BulkCompareResult = {
   message?: string;
 };
 
+export type BulkPairResult = {
+  left_id: string;
+  right_id: string;
+  plagiarism_score: number;
+  risk_level: string;
+  semantic_similarity: number;
+  ast_similarity: number;
+  token_similarity: number;
+};
+
 export type BulkCompareResponse = {
   ok: boolean;
   results: BulkCompareResult[];
+  pairs?: BulkPairResult[];
+  code?: string;
   message?: string;
 };
 
+// Newline-delimited JSON events sent by the streaming bulk-compare route, one per line.
+export type BulkStreamEvent =
+  | { type: "start"; total: number; cached: number }
+  | { type: "started"; id: string }
+  | { type: "result"; result: BulkCompareResult; cached: boolean }
+  | { type: "error"; code: string; message: string }
+  | { type: "done" };
+
 export async function compareCodes(payload: CompareCodesPayload): Promise<CompareCodesResponse> {
   const response = await fetch(API_URL, {
     method: "POST",
@@ -108,32 +155,199 @@ export async function compareCodes(payload: CompareCodesPayload): Promise<Compar
   return data;
 }
 
-export async function bulkCompare(payload: BulkComparePayload): Promise<BulkCompareResponse> {
+export type BulkPipelineOptions = {
+  /** Most submissions sent in one request. */
+  batchSize?: number;
+  /** Rough cap on the source characters sent in one request. */
+  maxBatchChars?: number;
+  /** Batches in flight at once. */
+  concurrency?: number;
+};
+
+export async function bulkCompare(
+  payload: BulkComparePayload,
+  options: BulkPipelineOptions = {},
+): Promise<BulkCompareResponse> {
+  const results = await runBulkPipeline(payload, options, async (request, record) => {
+    const response = await fetch(BULK_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+      cache: "no-store",
+    });
+
+    let data: BulkCompareResponse | undefined;
+    try {
+      data = (await response.json()) as BulkCompareResponse;
+    } catch {
+      throw new Error("Unable to parse bulk analysis response");
+    }
+
+    if (!response.ok || !data?.ok) {
+      throw new Error(data?.message || "Bulk analysis failed");
+    }
+    data.results.forEach(record);
+  });
+
+  return withPairs(payload, results);
+}
+
+export async function streamBulkCompare(
+  payload: BulkComparePayload,
+  onEvent: (event: BulkStreamEvent) => void,
+  options: BulkPipelineOptions = {},
+): Promise<BulkCompareResponse> {
+  const results = await runBulkPipeline(
+    payload,
+    options,
+    async (request, record) => {
+      const response = await fetch(BULK_STREAM_API_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(request),
+        cache: "no-store",
+      });
+
+      if (!response.ok || !response.body) {
+        let message = "Bulk analysis failed";
+        try {
+          message = ((await response.json()) as { message?: string }).message || message;
+        } catch {
+          // keep the generic message when the error body is not JSON
+        }
+        throw new Error(message);
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffered = "";
+      let finished = false;
+      while (!finished) {
+        const { value, done } = await reader.read();
+        buffered += value ?? "";
+        const lines = done ? [buffered] : buffered.split("\n");
+        buffered = done ? "" : lines.pop() ?? "";
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          let event: BulkStreamEvent;
+          try {
+            event = JSON.parse(line) as BulkStreamEvent;
+          } catch {
+            throw new Error("Unable to parse bulk analysis stream");
+          }
+          if (event.type === "error") {
+            throw new Error(event.message || "Bulk analysis failed");
+          }
+          if (event.type === "result") {
+            record(event.result);
+          }
+          onEvent(event);
+        }
+        finished = done;
+      }
+    },
+    (failed) => onEvent({ type: "result", result: failed, cached: false }),
+  );
+
+  return withPairs(payload, results);
+}
+
+type BulkBatchRunner = (
+  request: Omit<BulkComparePayload, "pairwise" | "allowMixedLanguages">,
+  record: (result: BulkCompareResult) => void,
+) => Promise<void>;
+
+// Splits submissions into batches, runs them with bounded concurrency and merges the results in
+// submission order. A failed batch is retried one file at a time, so one bad file cannot sink its
+// neighbours; results already recorded from a failed batch are kept.
+async function runBulkPipeline(
+  payload: BulkComparePayload,
+  options: BulkPipelineOptions,
+  runBatch: BulkBatchRunner,
+  onFailed?: (result: BulkCompareResult) => void,
+): Promise<BulkCompareResult[]> {
   if (!payload.submissions?.length) {
     throw new Error("Add at least one submission to compare");
   }
+  // scores across languages are meaningless, so a mislabeled batch is refused up front
+  if (!payload.allowMixedLanguages) {
+    const conflicts = findLanguageConflicts(payload.language, payload.reference_code, payload.submissions);
+    if (conflicts.length) {
+      throw new Error(`${describeLanguageConflicts(payload.language, conflicts)} Switch the language or allow mixed languages.`);
+    }
+  }
 
-  const response = await fetch(BULK_API_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(payload),
-    cache: "no-store",
+  const base = { language: payload.language, reference_code: payload.reference_code };
+  const byId = new Map<string, BulkCompareResult>();
+  const record = (result: BulkCompareResult) => byId.set(result.id, result);
+  let firstError: unknown = null;
+
+  const batches = chunkSubmissions(
+    payload.submissions,
+    options.batchSize ?? BULK_BATCH_SIZE,
+    options.maxBatchChars ?? BULK_BATCH_MAX_CHARS,
+  );
+  await mapWithConcurrency(batches, options.concurrency ?? BULK_CONCURRENCY, async (batch) => {
+    try {
+      await runBatch({ ...base, submissions: batch }, record);
+      return;
+    } catch (error) {
+      firstError ??= error;
+    }
+    for (const submission of batch.filter((entry) => !byId.has(entry.id))) {
+      try {
+        await runBatch({ ...base, submissions: [submission] }, record);
+      } catch (error) {
+        const failed = failedBulkResult(submission.id, error instanceof Error ? error.message : "Bulk analysis failed");
+        record(failed);
+        onFailed?.(failed);
+      }
+    }
   });
 
-  let data: BulkCompareResponse | undefined;
-  try {
-    data = (await response.json()) as BulkCompareResponse;
-  } catch {
-    throw new Error("Unable to parse bulk analysis response");
+  const results = payload.submissions.map(
+    (submission) => byId.get(submission.id) ?? failedBulkResult(submission.id, "analyzer returned no result"),
+  );
+  // nothing usable came back at all: surface the original failure instead of a list of errors
+  if (firstError && !results.some((result) => result.ok)) {
+    throw firstError;
   }
+  return results;
+}
 
-  if (!response.ok || !data?.ok) {
-    throw new Error(data?.message || "Bulk analysis failed");
-  }
+function chunkSubmissions(submissions: BulkSubmissionInput[], batchSize: number, maxChars: number) {
+  const batches: BulkSubmissionInput[][] = [];
+  let current: BulkSubmissionInput[] = [];
+  let chars = 0;
+  submissions.forEach((submission) => {
+    if (current.length && (current.length >= batchSize || chars + submission.code.length > maxChars)) {
+      batches.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push(submission);
+    chars += submission.code.length;
+  });
+  if (current.length) batches.push(current);
+  return batches;
+}
 
-  return data;
+function withPairs(payload: BulkComparePayload, results: BulkCompareResult[]): BulkCompareResponse {
+  // The analyzer only scores submissions against the reference, so
+  // submission-vs-submission pairs come from the local engine.
+  return {
+    ok: true,
+    results,
+    pairs: payload.pairwise ? rankSubmissionPairs(payload.submissions, payload.language) : undefined,
+  };
+}
+
+function readPositiveIntSetting(raw: string | undefined, fallback: number) {
+  const parsed = Number.parseInt(raw?.trim() ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
 }
 
 export async function checkPlagiarism(codeA: string, codeB: string) {
@@ -0,0 +1,161 @@
+import { strFromU8, unzip, type UnzipFileInfo } from "fflate";
+import { LANGUAGES, languageForFilename } from "@/lib/languages";
+
+export type ArchiveSubmission = {
+  id: string;
+  /** Archive paths merged into this submission, in path order. */
+  files: string[];
+  code: string;
+};
+
+export type SkippedArchiveEntry = {
+  path: string;
+  reason: "metadata" | "hidden" | "unsupported" | "too-large" | "empty";
+};
+
+export type ArchivePreview = {
+  archiveName: string;
+  submissions: ArchiveSubmission[];
+  skipped: SkippedArchiveEntry[];
+};
+
+export type SubmissionFilename = {
+  filename: string;
+  /** The submission's own name was already taken, so a numbered copy is used. */
+  renamed: boolean;
+};
+
+export type ArchiveOptions = {
+  extensions: string[];
+  /**
+   * Comment marker for the banner between merged files whose extension does not settle their
+   * language (e.g. `.h`); other files get their own language's marker.
+   */
+  lineComment?: string;
+  maxEntryBytes?: number;
+};
+
+const DEFAULT_MAX_ENTRY_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Unpacks an LMS export in the browser. Each top-level folder becomes one submission (its source
+ * files are merged in path order); loose files at the top level become their own submissions.
+ */
+export async function readSubmissionArchive(file: File, options: ArchiveOptions): Promise<ArchivePreview> {
+  const maxEntryBytes = options.maxEntryBytes ?? DEFAULT_MAX_ENTRY_BYTES;
+  const extensions = options.extensions.map((extension) => extension.toLowerCase());
+  const skipped: SkippedArchiveEntry[] = [];
+
+  const filter = (entry: UnzipFileInfo) => {
+    if (entry.name.endsWith("/")) return false;
+    const reason = skipReason(entry, extensions, maxEntryBytes);
+    if (reason) skipped.push({ path: entry.name, reason });
+    return !reason;
+  };
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  const unpacked = await new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+    unzip(data, { filter }, (error, result) => (error ? reject(error) : resolve(result)));
+  });
+
+  const sources = Object.entries(unpacked)
+    .map(([path, bytes]) => ({ path: path.replace(/\\/g, "/"), code: strFromU8(bytes) }))
+    .filter((entry) => {
+      if (entry.code.trim()) return true;
+      skipped.push({ path: entry.path, reason: "empty" });
+      return false;
+    })
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const root = sharedRootFolder(sources.map((entry) => entry.path));
+  const folders = new Map<string, { path: string; code: string }[]>();
+  const looseFiles: { path: string; code: string }[] = [];
+  sources.forEach((entry) => {
+    const relative = entry.path.slice(root.length);
+    const separator = relative.indexOf("/");
+    if (separator > 0) {
+      const folder = relative.slice(0, separator);
+      folders.set(folder, [...(folders.get(folder) ?? []), { path: relative, code: entry.code }]);
+    } else {
+      looseFiles.push({ path: relative, code: entry.code });
+    }
+  });
+
+  // a loose `alice.py` next to an `alice/` folder (or an `alice.java`) keeps its full filename as ID
+  const stems = looseFiles.map((entry) => entry.path.replace(/\.[^/.]+$/, ""));
+  const grouped = [
+    ...folders.entries(),
+    ...looseFiles.map((entry, index): [string, { path: string; code: string }[]] => {
+      const stem = stems[index];
+      const clashes = folders.has(stem) || stems.indexOf(stem) !== stems.lastIndexOf(stem);
+      return [clashes ? entry.path : stem, [entry]];
+    }),
+  ].sort((a, b) => a[1][0].path.localeCompare(b[1][0].path));
+
+  return {
+    archiveName: file.name,
+    submissions: grouped.map(([id, files]) => ({
+      id,
+      files: files.map((entry) => entry.path),
+      code:
+        files.length === 1
+          ? files[0].code
+          : files.map((entry) => `${fileBanner(entry.path, options.lineComment)}\n${entry.code.replace(/\s+$/, "")}\n`).join("\n"),
+    })),
+    skipped,
+  };
+}
+
+/**
+ * Upload filenames for an archive's submissions, in order. Names clashing with `taken` (files
+ * already uploaded) get a suffix like `alice (2).py` instead of replacing the earlier student.
+ */
+export function submissionFilenames(
+  submissions: ArchiveSubmission[],
+  taken: Iterable<string>,
+  fallbackExtension: string,
+): SubmissionFilename[] {
+  const used = new Set(taken);
+  return submissions.map((submission) => {
+    const extension = submission.files[0]?.match(/\.[^./]+$/)?.[0] ?? fallbackExtension;
+    let filename = `${submission.id}${extension}`;
+    const renamed = used.has(filename);
+    for (let copy = 2; used.has(filename); copy += 1) {
+      filename = `${submission.id} (${copy})${extension}`;
+    }
+    used.add(filename);
+    return { filename, renamed };
+  });
+}
+
+function skipReason(entry: UnzipFileInfo, extensions: string[], maxEntryBytes: number): SkippedArchiveEntry["reason"] | null {
+  const segments = entry.name.split(/[\\/]/).filter(Boolean);
+  if (segments.some((segment) => segment === "__MACOSX")) return "metadata";
+  if (segments.some((segment) => segment.startsWith("."))) return "hidden";
+  const extension = segments[segments.length - 1]?.match(/\.[^.]+$/)?.[0]?.toLowerCase();
+  if (!extension || !extensions.includes(extension)) return "unsupported";
+  if (entry.originalSize > maxEntryBytes) return "too-large";
+  return null;
+}
+
+// LMS exports usually wrap everything in one assignment folder; strip it so student folders become IDs.
+// Inside a wrapper, a lone folder holding only files is one student's submission and is kept.
+function sharedRootFolder(paths: string[]) {
+  if (!paths.length) return "";
+  const firstSegment = (path: string) => (path.includes("/") ? path.slice(0, path.indexOf("/") + 1) : "");
+  let root = "";
+  for (;;) {
+    const candidates = new Set(paths.map((path) => firstSegment(path.slice(root.length))));
+    const [only] = [...candidates];
+    if (candidates.size !== 1 || !only) return root;
+    const next = root + only;
+    if (root && paths.every((path) => !path.slice(next.length).includes("/"))) return root;
+    root = next;
+  }
+}
+
+// the banner must be a comment in the file's own language, or it is scored as code
+function fileBanner(path: string, fallbackComment = "#") {
+  const language = languageForFilename(path);
+  return `${language ? LANGUAGES[language].lineComment : fallbackComment} ---- ${path} ----`;
+}
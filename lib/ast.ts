@@ -0,0 +1,46 @@
+export type ASTNode = {
+  type: string;
+  value?: string;
+  children?: ASTNode[];
+};
+
+export function coerceAst(input: unknown): ASTNode[] {
+  if (!input) return [];
+  if (Array.isArray(input)) {
+    return input.map(coerceAstNode).filter(Boolean) as ASTNode[];
+  }
+  if (typeof input === "object") {
+    if (hasAstIdentity(input)) {
+      const single = coerceAstNode(input);
+      return single ? [single] : [];
+    }
+    const record = input as Record<string, unknown>;
+    return Object.values(record)
+      .flatMap((value) => coerceAst(value))
+      .filter(Boolean) as ASTNode[];
+  }
+  return [];
+}
+
+function coerceAstNode(input: unknown): ASTNode | null {
+  if (!input || typeof input !== "object") return null;
+  const record = input as Record<string, unknown>;
+  const node: ASTNode = {
+    type: String(record.type ?? record.kind ?? record.name ?? "Node"),
+  };
+  if (typeof record.value === "string") {
+    node.value = record.value;
+  } else if (typeof record.name === "string" && !node.value) {
+    node.value = record.name;
+  }
+  const childrenSource = record.children ?? record.body ?? record.args ?? null;
+  const children = coerceAst(childrenSource);
+  if (children.length) {
+    node.children = children;
+  }
+  return node;
+}
+
+function hasAstIdentity(input: object) {
+  return "type" in input || "name" in input || "kind" in input;
+}
@@ -0,0 +1,233 @@
+import type { ASTNode } from "@/lib/ast";
+
+export type AstDiffStatus = "matched" | "relabeled" | "inserted" | "deleted";
+
+/** Shared by the canvas view and the SVG export. */
+export const DIFF_STATUS_COLORS: Record<AstDiffStatus, string> = {
+  matched: "#72f5e4",
+  relabeled: "#fbbf24",
+  inserted: "#34d399",
+  deleted: "#fb7185",
+};
+
+export type AstDiff = {
+  /** Status per reference node, in pre-order (the ids `layoutForest` assigns). */
+  reference: AstDiffStatus[];
+  /** Status per submission node, in pre-order. */
+  submission: AstDiffStatus[];
+  /** `[reference index, submission index]` for every matched or relabeled node. */
+  pairs: [number, number][];
+  /** Pairs whose parents are not paired with each other and that have children: aligned subtrees. */
+  subtreeRoots: [number, number][];
+  /** Share of nodes on both sides that found a partner. */
+  similarity: number;
+};
+
+type FlatNode = {
+  type: string;
+  value?: string;
+  parent: number | null;
+  children: number[];
+  /** Pre-order index one past the last descendant. */
+  end: number;
+  height: number;
+  /** Interned ids of the subtree with and without `value`s. */
+  exact: number;
+  shape: number;
+};
+
+// Subtrees this short are left to the bottom-up and recovery passes; matching single leaves by
+// content alone would pair every `Name x` with the first `Name x` on the other side.
+const MIN_ANCHOR_HEIGHT = 2;
+const MIN_CONTAINER_DICE = 0.4;
+
+/**
+ * Aligns two forests in the style of GumTree: identical subtrees are anchored top-down (first by
+ * content, then by shape so renamed identifiers still line up), containers are matched bottom-up
+ * by how many descendants they share, and the children of matched nodes are aligned by type.
+ */
+export function diffAst(reference: ASTNode[], submission: ASTNode[]): AstDiff {
+  const intern = new Map<string, number>();
+  const left = flatten(reference, intern);
+  const right = flatten(submission, intern);
+  const leftToRight = new Array<number>(left.length).fill(-1);
+  const rightToLeft = new Array<number>(right.length).fill(-1);
+
+  const pair = (l: number, r: number) => {
+    leftToRight[l] = r;
+    rightToLeft[r] = l;
+  };
+  const pairSubtrees = (l: number, r: number) => {
+    // same shape means same pre-order layout, so descendants pair up by offset
+    for (let offset = 0; l + offset < left[l].end; offset += 1) pair(l + offset, r + offset);
+  };
+
+  (["exact", "shape"] as const).forEach((key) => {
+    const available = new Map<number, number[]>();
+    right.forEach((node, index) => {
+      if (node.height < MIN_ANCHOR_HEIGHT || rightToLeft[index] !== -1) return;
+      const bucket = available.get(node[key]);
+      if (bucket) bucket.push(index);
+      else available.set(node[key], [index]);
+    });
+    left
+      .map((node, index) => ({ node, index }))
+      .filter(({ node, index }) => node.height >= MIN_ANCHOR_HEIGHT && leftToRight[index] === -1)
+      .sort((a, b) => b.node.end - b.index - (a.node.end - a.index) || a.index - b.index)
+      .forEach(({ node, index }) => {
+        if (!isUnmatched(left, leftToRight, index)) return;
+        const match = available.get(node[key])?.find((candidate) => isUnmatched(right, rightToLeft, candidate));
+        if (match !== undefined) pairSubtrees(index, match);
+      });
+  });
+
+  // bottom-up: containers whose descendants mostly map into the same container on the other side
+  postOrder(left).forEach((index) => {
+    const node = left[index];
+    if (leftToRight[index] !== -1 || !node.children.length) return;
+    const votes = new Map<number, number>();
+    let mappedDescendants = 0;
+    for (let descendant = index + 1; descendant < node.end; descendant += 1) {
+      if (leftToRight[descendant] === -1) continue;
+      mappedDescendants += 1;
+      let ancestor = right[leftToRight[descendant]].parent;
+      while (ancestor !== null) {
+        if (rightToLeft[ancestor] === -1 && right[ancestor].type === node.type) {
+          votes.set(ancestor, (votes.get(ancestor) ?? 0) + 1);
+        }
+        ancestor = right[ancestor].parent;
+      }
+    }
+    if (!mappedDescendants) return;
+    let best = -1;
+    let bestDice = MIN_CONTAINER_DICE;
+    votes.forEach((common, candidate) => {
+      const dice = (2 * common) / (node.end - index - 1 + (right[candidate].end - candidate - 1));
+      if (dice > bestDice) {
+        best = candidate;
+        bestDice = dice;
+      }
+    });
+    if (best !== -1) pair(index, best);
+  });
+
+  // roots without any shared descendants still line up when the forests agree on their types
+  alignChildren(rootsOf(left), rootsOf(right), left, right, leftToRight, rightToLeft, pair);
+
+  // recovery: walk matched pairs top-down and align their unmatched children by type
+  for (let index = 0; index < left.length; index += 1) {
+    const partner = leftToRight[index];
+    if (partner === -1) continue;
+    alignChildren(left[index].children, right[partner].children, left, right, leftToRight, rightToLeft, pair);
+  }
+
+  const pairs: [number, number][] = [];
+  const referenceStatus = left.map((node, index): AstDiffStatus => {
+    const partner = leftToRight[index];
+    if (partner === -1) return "deleted";
+    pairs.push([index, partner]);
+    return node.type === right[partner].type && node.value === right[partner].value ? "matched" : "relabeled";
+  });
+  const submissionStatus = right.map((_, index): AstDiffStatus =>
+    rightToLeft[index] === -1 ? "inserted" : referenceStatus[rightToLeft[index]],
+  );
+  const subtreeRoots = pairs.filter(([l, r]) => {
+    if (!left[l].children.length) return false;
+    const parent = left[l].parent;
+    return parent === null || leftToRight[parent] !== right[r].parent;
+  });
+
+  const total = left.length + right.length;
+  return {
+    reference: referenceStatus,
+    submission: submissionStatus,
+    pairs,
+    subtreeRoots,
+    similarity: total ? (2 * pairs.length) / total : 1,
+  };
+}
+
+function flatten(forest: ASTNode[], intern: Map<string, number>): FlatNode[] {
+  const nodes: FlatNode[] = [];
+  const idFor = (key: string) => {
+    let id = intern.get(key);
+    if (id === undefined) {
+      id = intern.size;
+      intern.set(key, id);
+    }
+    return id;
+  };
+
+  const visit = (node: ASTNode, parent: number | null): number => {
+    const index = nodes.length;
+    nodes.push({ type: node.type, value: node.value, parent, children: [], end: 0, height: 1, exact: 0, shape: 0 });
+    const children = (node.children ?? []).map((child) => visit(child, index));
+    const flat = nodes[index];
+    flat.children = children;
+    flat.end = nodes.length;
+    flat.height = 1 + Math.max(0, ...children.map((child) => nodes[child].height));
+    flat.exact = idFor(`${node.type}\u0000${node.value ?? ""}\u0000${children.map((child) => nodes[child].exact).join(",")}`);
+    flat.shape = idFor(`${node.type}\u0001${children.map((child) => nodes[child].shape).join(",")}`);
+    return index;
+  };
+
+  forest.forEach((node) => visit(node, null));
+  return nodes;
+}
+
+function isUnmatched(nodes: FlatNode[], mapping: number[], index: number) {
+  for (let cursor = index; cursor < nodes[index].end; cursor += 1) {
+    if (mapping[cursor] !== -1) return false;
+  }
+  return true;
+}
+
+function postOrder(nodes: FlatNode[]) {
+  const order: number[] = [];
+  const visit = (index: number) => {
+    nodes[index].children.forEach(visit);
+    order.push(index);
+  };
+  rootsOf(nodes).forEach(visit);
+  return order;
+}
+
+function rootsOf(nodes: FlatNode[]) {
+  return nodes.flatMap((node, index) => (node.parent === null ? [index] : []));
+}
+
+/** LCS over the types of the still-unmatched children, so order is kept. */
+function alignChildren(
+  leftChildren: number[],
+  rightChildren: number[],
+  left: FlatNode[],
+  right: FlatNode[],
+  leftToRight: number[],
+  rightToLeft: number[],
+  pair: (l: number, r: number) => void,
+) {
+  const a = leftChildren.filter((index) => leftToRight[index] === -1);
+  const b = rightChildren.filter((index) => rightToLeft[index] === -1);
+  if (!a.length || !b.length) return;
+  const table = a.map(() => new Array<number>(b.length + 1).fill(0));
+  table.push(new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      table[i][j] =
+        left[a[i]].type === right[b[j]].type ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (left[a[i]].type === right[b[j]].type) {
+      pair(a[i], b[j]);
+      i += 1;
+      j += 1;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i += 1;
+    } else {
+      j += 1;
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import type { ASTNode } from "@/lib/ast";
+
+export type ForestSide = "reference" | "submission";
+
+export type PositionedNode = {
+  /** Position in the laid-out array; collapsed subtrees are skipped. */
+  id: number;
+  /** Stable across collapsing, see `nodeKey`. */
+  key: string;
+  /** Pre-order index within the node's own forest, counting collapsed nodes. */
+  index: number;
+  type: string;
+  value?: string;
+  depth: number;
+  x: number;
+  y: number;
+  parentId?: number;
+  side?: ForestSide;
+  childCount: number;
+  /** Descendants hidden because this node is collapsed. */
+  hiddenCount: number;
+};
+
+/** Every node of a forest, laid out or not, for search and depth controls. */
+export type ForestEntry = {
+  key: string;
+  type: string;
+  value?: string;
+  depth: number;
+  parentKey?: string;
+  childCount: number;
+};
+
+export type LayoutOptions = {
+  side?: ForestSide;
+  /** `nodeKey`s of nodes whose children are not laid out. */
+  collapsed?: ReadonlySet<string>;
+};
+
+export const NODE_WIDTH = 140;
+export const NODE_HEIGHT = 68;
+export const HORIZONTAL_GAP = 150;
+export const VERTICAL_GAP = 120;
+const FOREST_GAP = 3 * HORIZONTAL_GAP;
+
+export function nodeKey(side: ForestSide | undefined, index: number) {
+  return `${side ?? "tree"}:${index}`;
+}
+
+/** Tidy-ish layout: leaves are spaced evenly, parents sit above the middle of their children. */
+export function layoutForest(nodes: ASTNode[], options: LayoutOptions = {}): PositionedNode[] {
+  const positions: PositionedNode[] = [];
+  let cursor = 0;
+  let index = 0;
+
+  const visit = (node: ASTNode, depth: number, parentId?: number): number => {
+    const id = positions.length;
+    const key = nodeKey(options.side, index);
+    const children = node.children ?? [];
+    const collapsed = children.length > 0 && Boolean(options.collapsed?.has(key));
+    positions.push({
+      id,
+      key,
+      index,
+      type: node.type,
+      value: node.value,
+      depth,
+      x: 0,
+      y: depth * VERTICAL_GAP,
+      parentId,
+      side: options.side,
+      childCount: children.length,
+      hiddenCount: 0,
+    });
+    index += 1;
+
+    if (!children.length || collapsed) {
+      if (collapsed) {
+        const hidden = countDescendants(node);
+        positions[id].hiddenCount = hidden;
+        index += hidden;
+      }
+      positions[id].x = cursor * HORIZONTAL_GAP;
+      cursor += 1;
+      return id;
+    }
+
+    const childIds = children.map((child) => visit(child, depth + 1, id));
+    const averageX = childIds.reduce((sum, childId) => sum + positions[childId].x, 0) / childIds.length;
+    positions[id].x = averageX;
+    return id;
+  };
+
+  nodes.forEach((node) => visit(node, 0));
+
+  if (!positions.length) return positions;
+  const minX = Math.min(...positions.map((node) => node.x));
+  positions.forEach((node) => {
+    node.x -= minX;
+  });
+  return positions;
+}
+
+export function indexForest(nodes: ASTNode[], side?: ForestSide): ForestEntry[] {
+  const entries: ForestEntry[] = [];
+  const visit = (node: ASTNode, depth: number, parentKey?: string) => {
+    const key = nodeKey(side, entries.length);
+    const children = node.children ?? [];
+    entries.push({ key, type: node.type, value: node.value, depth, parentKey, childCount: children.length });
+    children.forEach((child) => visit(child, depth + 1, key));
+  };
+  nodes.forEach((node) => visit(node, 0));
+  return entries;
+}
+
+/** World-space box around every node card. */
+export function layoutBounds(nodes: PositionedNode[]) {
+  return nodes.reduce(
+    (acc, node) => {
+      const left = node.x - NODE_WIDTH / 2;
+      const right = node.x + NODE_WIDTH / 2;
+      const bottom = node.y + NODE_HEIGHT;
+      return {
+        minX: Math.min(acc.minX, left),
+        maxX: Math.max(acc.maxX, right),
+        minY: Math.min(acc.minY, node.y),
+        maxY: Math.max(acc.maxY, bottom),
+      };
+    },
+    {
+      minX: Infinity,
+      maxX: -Infinity,
+      minY: Infinity,
+      maxY: -Infinity,
+    },
+  );
+}
+
+function countDescendants(node: ASTNode): number {
+  return (node.children ?? []).reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+}
+
+/**
+ * Lays out the reference forest on the left and the submission forest to its right. Submission
+ * ids follow the reference ids; use `side` and `index` to find a node in either forest.
+ */
+export function layoutSideBySide(
+  reference: ASTNode[],
+  submission: ASTNode[],
+  collapsed?: ReadonlySet<string>,
+): PositionedNode[] {
+  const left = layoutForest(reference, { side: "reference", collapsed });
+  const shiftX = left.length ? Math.max(...left.map((node) => node.x)) + FOREST_GAP : 0;
+  const shiftId = left.length;
+  const right = layoutForest(submission, { side: "submission", collapsed }).map((node) => ({
+    ...node,
+    id: node.id + shiftId,
+    x: node.x + shiftX,
+    parentId: node.parentId === undefined ? undefined : node.parentId + shiftId,
+  }));
+  return [...left, ...right];
+}
@@ -0,0 +1,150 @@
+import { NODE_HEIGHT, NODE_WIDTH, type ForestSide, type PositionedNode } from "@/lib/astLayout";
+
+export type Rect = { minX: number; minY: number; maxX: number; maxY: number };
+
+/** A subtree drawn as a single glyph because it is too small on screen to read. */
+export type SubtreeSummary = {
+  root: PositionedNode;
+  bounds: Rect;
+  /** Laid-out nodes in the subtree, root included. */
+  count: number;
+};
+
+export type AstSpatialIndex = {
+  nodes: PositionedNode[];
+  byKey: Map<string, PositionedNode>;
+  /** Left edge of each forest in a side-by-side layout, for the forest labels. */
+  sideLeft: Partial<Record<ForestSide, number>>;
+  /** Nodes whose card or edge to their parent intersects `rect`, in layout order. */
+  query: (rect: Rect) => PositionedNode[];
+  nodeAt: (x: number, y: number) => PositionedNode | undefined;
+  /**
+   * Walks the visible part of the forest top-down and stops at subtrees narrower than
+   * `minSubtreeWidth` (world units), returning them as summaries instead of their nodes.
+   */
+  summarize: (rect: Rect, minSubtreeWidth: number) => { nodes: PositionedNode[]; summaries: SubtreeSummary[] };
+};
+
+// Several node columns per cell keeps buckets short without spreading wide edges over many cells.
+const CELL_SIZE = 600;
+// Room for the "+N" badge under folded nodes.
+const BADGE_ROOM = 26;
+
+/** Uniform grid over node cards and their incoming edges; rebuilt whenever the layout changes. */
+export function createAstSpatialIndex(nodes: PositionedNode[]): AstSpatialIndex {
+  const boxes = nodes.map((node): Rect => {
+    const card = cardBox(node);
+    if (node.parentId === undefined) return card;
+    const parent = nodes[node.parentId];
+    return union(card, {
+      minX: Math.min(parent.x, node.x),
+      maxX: Math.max(parent.x, node.x),
+      minY: parent.y + NODE_HEIGHT,
+      maxY: node.y,
+    });
+  });
+
+  const cells = new Map<string, number[]>();
+  boxes.forEach((box, id) => {
+    forEachCell(box, (key) => {
+      const bucket = cells.get(key);
+      if (bucket) bucket.push(id);
+      else cells.set(key, [id]);
+    });
+  });
+
+  // pre-order ids put every child after its parent, so one reverse pass folds subtrees upwards
+  const subtrees = nodes.map((node) => cardBox(node));
+  const counts = nodes.map(() => 1);
+  for (let id = nodes.length - 1; id >= 0; id -= 1) {
+    const parentId = nodes[id].parentId;
+    if (parentId === undefined) continue;
+    subtrees[parentId] = union(subtrees[parentId], subtrees[id]);
+    counts[parentId] += counts[id];
+  }
+  const children: number[][] = nodes.map(() => []);
+  const roots: number[] = [];
+  nodes.forEach((node) => (node.parentId === undefined ? roots : children[node.parentId]).push(node.id));
+
+  const sideLeft: Partial<Record<ForestSide, number>> = {};
+  nodes.forEach((node) => {
+    if (!node.side) return;
+    sideLeft[node.side] = Math.min(sideLeft[node.side] ?? Infinity, node.x - NODE_WIDTH / 2);
+  });
+
+  let stamp = 0;
+  const seen = new Uint32Array(nodes.length);
+
+  const query = (rect: Rect) => {
+    stamp += 1;
+    const hits: number[] = [];
+    forEachCell(rect, (key) => {
+      cells.get(key)?.forEach((id) => {
+        if (seen[id] === stamp) return;
+        seen[id] = stamp;
+        if (intersects(boxes[id], rect)) hits.push(id);
+      });
+    });
+    return hits.sort((a, b) => a - b).map((id) => nodes[id]);
+  };
+
+  return {
+    nodes,
+    byKey: new Map(nodes.map((node) => [node.key, node])),
+    sideLeft,
+    query,
+    nodeAt: (x, y) =>
+      query({ minX: x, maxX: x, minY: y, maxY: y }).find(
+        (node) => Math.abs(x - node.x) <= NODE_WIDTH / 2 && y >= node.y && y <= node.y + NODE_HEIGHT,
+      ),
+    summarize: (rect, minSubtreeWidth) => {
+      const visible: PositionedNode[] = [];
+      const summaries: SubtreeSummary[] = [];
+      const stack = [...roots].reverse();
+      while (stack.length) {
+        const id = stack.pop() as number;
+        const bounds = subtrees[id];
+        if (!intersects(bounds, rect)) continue;
+        if (counts[id] > 1 && bounds.maxX - bounds.minX < minSubtreeWidth) {
+          summaries.push({ root: nodes[id], bounds, count: counts[id] });
+          continue;
+        }
+        visible.push(nodes[id]);
+        for (let index = children[id].length - 1; index >= 0; index -= 1) stack.push(children[id][index]);
+      }
+      return { nodes: visible, summaries };
+    },
+  };
+}
+
+function cardBox(node: PositionedNode): Rect {
+  return {
+    minX: node.x - NODE_WIDTH / 2,
+    maxX: node.x + NODE_WIDTH / 2,
+    minY: node.y,
+    maxY: node.y + NODE_HEIGHT + (node.hiddenCount ? BADGE_ROOM : 0),
+  };
+}
+
+function union(a: Rect, b: Rect): Rect {
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY),
+  };
+}
+
+function intersects(a: Rect, b: Rect) {
+  return a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+}
+
+function forEachCell(rect: Rect, visit: (key: string) => void) {
+  const startX = Math.floor(rect.minX / CELL_SIZE);
+  const endX = Math.floor(rect.maxX / CELL_SIZE);
+  const startY = Math.floor(rect.minY / CELL_SIZE);
+  const endY = Math.floor(rect.maxY / CELL_SIZE);
+  for (let cellX = startX; cellX <= endX; cellX += 1) {
+    for (let cellY = startY; cellY <= endY; cellY += 1) visit(`${cellX},${cellY}`);
+  }
+}
@@ -0,0 +1,129 @@
+import { DIFF_STATUS_COLORS, type AstDiffStatus } from "@/lib/astDiff";
+import { layoutBounds, NODE_HEIGHT, NODE_WIDTH, type PositionedNode } from "@/lib/astLayout";
+import { MATCH_COLORS } from "@/lib/matchedRegions";
+
+export type WorldRect = { x: number; y: number; width: number; height: number };
+
+export type AstSvgOptions = {
+  /** Part of the layout to export; `fullLayoutArea` by default. */
+  area?: WorldRect;
+  statusOf?: (node: PositionedNode) => AstDiffStatus | undefined;
+  /** Node keys of aligned subtree roots, drawn as dashed links. */
+  links?: [string, string][];
+  title?: string;
+};
+
+export const EXPORT_BACKGROUND = "#050914";
+const EXPORT_MARGIN = 60;
+const MONO_FONT = "'Geist Mono', 'Space Mono', monospace";
+const SANS_FONT = "'Geist', 'Inter', sans-serif";
+
+/** Whole layout plus room for the forest labels above and the fold badges below. */
+export function fullLayoutArea(nodes: PositionedNode[]): WorldRect {
+  if (!nodes.length) return { x: 0, y: 0, width: NODE_WIDTH, height: NODE_HEIGHT };
+  const bounds = layoutBounds(nodes);
+  return {
+    x: bounds.minX - EXPORT_MARGIN,
+    y: bounds.minY - EXPORT_MARGIN,
+    width: bounds.maxX - bounds.minX + 2 * EXPORT_MARGIN,
+    height: bounds.maxY - bounds.minY + 2 * EXPORT_MARGIN,
+  };
+}
+
+/**
+ * Standalone SVG of a laid-out tree, drawn from the same `PositionedNode`s and colours as the
+ * canvas so exported diagrams match what the reviewer saw.
+ */
+export function buildAstSvg(nodes: PositionedNode[], options: AstSvgOptions = {}): string {
+  const area = options.area ?? fullLayoutArea(nodes);
+  const byKey = new Map(nodes.map((node) => [node.key, node]));
+  const parts: string[] = [];
+
+  nodes.forEach((node) => {
+    if (node.parentId === undefined) return;
+    const parent = nodes[node.parentId];
+    const startY = parent.y + NODE_HEIGHT;
+    const offset = Math.max(40, (node.y - startY) * 0.45);
+    parts.push(
+      `<path d="M${num(parent.x)} ${num(startY)} C${num(parent.x)} ${num(startY + offset)} ${num(node.x)} ${num(node.y - offset)} ${num(node.x)} ${num(node.y)}" fill="none" stroke="rgba(114,245,228,0.4)" stroke-width="2"/>`,
+    );
+  });
+
+  if (options.links) {
+    (["reference", "submission"] as const).forEach((side) => {
+      const sideNodes = nodes.filter((node) => node.side === side);
+      if (!sideNodes.length) return;
+      const left = Math.min(...sideNodes.map((node) => node.x)) - NODE_WIDTH / 2;
+      parts.push(
+        `<text x="${num(left)}" y="-28" fill="rgba(255,255,255,0.55)" font-family="${MONO_FONT}" font-size="13" font-weight="600">${side.toUpperCase()}</text>`,
+      );
+    });
+    options.links.forEach(([from, to], index) => {
+      const start = byKey.get(from);
+      const end = byKey.get(to);
+      if (!start || !end) return;
+      const startX = start.x + NODE_WIDTH / 2;
+      const startY = start.y + NODE_HEIGHT / 2;
+      const endX = end.x - NODE_WIDTH / 2;
+      const endY = end.y + NODE_HEIGHT / 2;
+      const lift = Math.min(240, Math.abs(endX - startX) * 0.25);
+      parts.push(
+        `<path d="M${num(startX)} ${num(startY)} C${num(startX + lift)} ${num(startY - lift)} ${num(endX - lift)} ${num(endY - lift)} ${num(endX)} ${num(endY)}" fill="none" stroke="${MATCH_COLORS[index % MATCH_COLORS.length]}" stroke-width="1.5" stroke-dasharray="8 6"/>`,
+      );
+    });
+  }
+
+  nodes.forEach((node) => {
+    const status = options.statusOf?.(node);
+    const x = node.x - NODE_WIDTH / 2;
+    const color = status ? DIFF_STATUS_COLORS[status] : "#72f5e4";
+    const value = node.value && node.value.length > 28 ? `${node.value.slice(0, 28)}…` : node.value;
+    parts.push(
+      `<g>` +
+        `<rect x="${num(x)}" y="${num(node.y)}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="14" fill="rgba(6,12,30,0.92)" stroke="${status ? color : "rgba(255,255,255,0.08)"}" stroke-width="${status && status !== "matched" ? 2.5 : 1}"/>` +
+        `<text x="${num(node.x)}" y="${num(node.y + 16)}" text-anchor="middle" fill="rgba(255,255,255,0.45)" font-family="${MONO_FONT}" font-size="11" font-weight="600">d${node.depth}</text>` +
+        `<text x="${num(node.x)}" y="${num(node.y + 34)}" text-anchor="middle" fill="${color}" font-family="${SANS_FONT}" font-size="14" font-weight="600">${escapeXml(node.type)}</text>` +
+        (value
+          ? `<text x="${num(node.x)}" y="${num(node.y + 52)}" text-anchor="middle" fill="rgba(255,255,255,0.7)" font-family="${SANS_FONT}" font-size="11">${escapeXml(value)}</text>`
+          : "") +
+        (node.childCount
+          ? `<text x="${num(x + NODE_WIDTH - 10)}" y="${num(node.y + 16)}" text-anchor="end" fill="rgba(255,255,255,0.55)" font-family="${MONO_FONT}" font-size="12" font-weight="600">${node.hiddenCount ? "+" : "−"}</text>`
+          : "") +
+        (node.hiddenCount ? foldBadge(node) : "") +
+        `</g>`,
+    );
+  });
+
+  const viewBox = `${num(area.x)} ${num(area.y)} ${num(area.width)} ${num(area.height)}`;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}" width="${num(area.width)}" height="${num(area.height)}">
+${options.title ? `<title>${escapeXml(options.title)}</title>\n` : ""}<rect x="${num(area.x)}" y="${num(area.y)}" width="${num(area.width)}" height="${num(area.height)}" fill="${EXPORT_BACKGROUND}"/>
+${parts.join("\n")}
+</svg>
+`;
+}
+
+function foldBadge(node: PositionedNode) {
+  const label = `+${node.hiddenCount}`;
+  // the canvas measures the text; monospace digits make an estimate good enough here
+  const width = label.length * 6.6 + 14;
+  return (
+    `<rect x="${num(node.x - width / 2)}" y="${num(node.y + NODE_HEIGHT + 6)}" width="${num(width)}" height="18" rx="9" fill="rgba(114,245,228,0.18)"/>` +
+    `<text x="${num(node.x)}" y="${num(node.y + NODE_HEIGHT + 19)}" text-anchor="middle" fill="#72f5e4" font-family="${MONO_FONT}" font-size="11" font-weight="600">${label}</text>`
+  );
+}
+
+function num(value: number) {
+  return String(Math.round(value * 100) / 100);
+}
+
+function escapeXml(value: string) {
+  return value
+    // XML 1.0 forbids these control characters outright
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,104 @@
+import type { AnalyzerBackend } from "@/lib/analyzerBackends";
+import type { BulkCompareResult, BulkSubmissionInput } from "@/lib/apiPlaceholders";
+import { DEFAULT_LANGUAGE, resolveLanguageId } from "@/lib/languages";
+import { describeIssues, failedBulkResult, validateBulkCompareResponse } from "@/lib/responseValidation";
+import { analysisKey, createResultCache, resultCacheOptionsFromEnv } from "@/lib/resultCache";
+import { UpstreamError, upstreamMessage } from "@/lib/upstreamResilience";
+
+// Server-side only: shared by the buffered and streaming bulk-compare routes so both use one cache.
+
+export type BulkRequest = {
+  language: string;
+  reference_code: string;
+  submissions: BulkSubmissionInput[];
+};
+
+export type CachedBulkResults = {
+  results: Map<string, BulkCompareResult>;
+  minTtlMs: number;
+};
+
+const DEFAULT_STREAM_CONCURRENCY = 4;
+
+// One entry per submission, so growing a batch only sends the new files upstream.
+const cache = createResultCache<BulkCompareResult>(resultCacheOptionsFromEnv());
+
+export function parseBulkRequest(body: unknown): { ok: true; value: BulkRequest } | { ok: false; message: string } {
+  const record = (typeof body === "object" && body !== null ? body : {}) as Record<string, unknown>;
+  const language = typeof record.language === "string" ? resolveLanguageId(record.language) ?? record.language : DEFAULT_LANGUAGE;
+  const reference_code = typeof record.reference_code === "string" ? record.reference_code : "";
+  const submissions = sanitizeSubmissions(record.submissions);
+
+  if (!reference_code.trim()) {
+    return { ok: false, message: "reference_code is required" };
+  }
+  if (!submissions.length) {
+    return { ok: false, message: "At least one submission is required" };
+  }
+  return { ok: true, value: { language, reference_code, submissions } };
+}
+
+export function lookupCachedResults(backend: AnalyzerBackend, request: BulkRequest): CachedBulkResults {
+  const results = new Map<string, BulkCompareResult>();
+  let minTtlMs = Number.POSITIVE_INFINITY;
+  request.submissions.forEach((submission) => {
+    const cached = cache.get(analysisKey(backend.config, request.language, request.reference_code, submission.code));
+    if (!cached) return;
+    results.set(submission.id, { ...cached.value, id: submission.id });
+    minTtlMs = Math.min(minTtlMs, cached.ttlRemainingMs);
+  });
+  return { results, minTtlMs };
+}
+
+/**
+ * Sends `submissions` upstream as one batch and stores every successful result.
+ * Throws an UpstreamError when the batch as a whole fails; per-file failures come back as `ok: false` results.
+ */
+export async function analyzeSubmissions(
+  backend: AnalyzerBackend,
+  request: BulkRequest,
+  submissions: BulkSubmissionInput[],
+): Promise<{ results: BulkCompareResult[]; stored: boolean }> {
+  const { status, data } = await backend.bulkCompare({
+    language: request.language,
+    reference_code: request.reference_code,
+    submissions,
+  });
+  if (status >= 300) {
+    throw new UpstreamError("UPSTREAM_REJECTED", upstreamMessage(data, status), { upstreamStatus: status, details: data });
+  }
+
+  const validated = validateBulkCompareResponse(data, backend.config.scales);
+  if (!validated.ok) {
+    throw new UpstreamError("UPSTREAM_BAD_RESPONSE", describeIssues(validated.issues), { details: validated.issues });
+  }
+
+  const byId = new Map(validated.value.results.map((result) => [result.id, result]));
+  let stored = false;
+  const results = submissions.map((submission) => {
+    const result = byId.get(submission.id);
+    if (!result) return failedBulkResult(submission.id, "analyzer returned no result");
+    if (result.ok) {
+      const key = analysisKey(backend.config, request.language, request.reference_code, submission.code);
+      stored = cache.set(key, result) || stored;
+    }
+    return result;
+  });
+  return { results, stored };
+}
+
+export function streamConcurrency() {
+  const parsed = Number.parseInt(process.env.BULK_STREAM_CONCURRENCY?.trim() ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_STREAM_CONCURRENCY;
+}
+
+function sanitizeSubmissions(input: unknown): BulkSubmissionInput[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .map((entry, index) => {
+      const id = typeof entry?.id === "string" && entry.id.trim() ? entry.id.trim() : `submission-${index + 1}`;
+      const code = typeof entry?.code === "string" ? entry.code : "";
+      return { id, code };
+    })
+    .filter((entry) => entry.code.trim().length > 0);
+}
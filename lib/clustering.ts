@@ -0,0 +1,94 @@
+export type SimilarityMatrix = {
+  ids: string[];
+  values: number[][];
+};
+
+export type MatrixPair = {
+  leftId: string;
+  rightId: string;
+  similarityPercent: number;
+};
+
+export function buildSimilarityMatrix(ids: string[], pairs: MatrixPair[]): SimilarityMatrix {
+  const position = new Map(ids.map((id, index) => [id, index]));
+  const values: number[][] = ids.map((_, row) => ids.map((__, column) => (row === column ? 100 : 0)));
+  pairs.forEach((pair) => {
+    const row = position.get(pair.leftId);
+    const column = position.get(pair.rightId);
+    if (row === undefined || column === undefined) return;
+    values[row][column] = pair.similarityPercent;
+    values[column][row] = pair.similarityPercent;
+  });
+  return { ids, values };
+}
+
+// Average-linkage agglomerative clustering; returns the dendrogram leaf order.
+export function clusterOrder(values: number[][]): number[] {
+  const size = values.length;
+  if (size <= 2) return values.map((_, index) => index);
+
+  type Cluster = { id: number; members: number[] };
+  let nextId = 0;
+  let clusters: Cluster[] = values.map((_, index) => ({ id: nextId++, members: [index] }));
+  const linkage = new Map<string, number>();
+
+  const averageSimilarity = (a: Cluster, b: Cluster) => {
+    const key = a.id < b.id ? `${a.id}:${b.id}` : `${b.id}:${a.id}`;
+    const cached = linkage.get(key);
+    if (cached !== undefined) return cached;
+    let total = 0;
+    a.members.forEach((row) => {
+      b.members.forEach((column) => {
+        total += values[row][column];
+      });
+    });
+    const average = total / (a.members.length * b.members.length);
+    linkage.set(key, average);
+    return average;
+  };
+
+  while (clusters.length > 1) {
+    let bestLeft = 0;
+    let bestRight = 1;
+    let bestScore = -Infinity;
+    for (let left = 0; left < clusters.length; left += 1) {
+      for (let right = left + 1; right < clusters.length; right += 1) {
+        const score = averageSimilarity(clusters[left], clusters[right]);
+        if (score > bestScore) {
+          bestScore = score;
+          bestLeft = left;
+          bestRight = right;
+        }
+      }
+    }
+    const merged: Cluster = {
+      id: nextId++,
+      members: orientMerge(clusters[bestLeft].members, clusters[bestRight].members, values),
+    };
+    clusters = clusters.filter((_, index) => index !== bestLeft && index !== bestRight);
+    clusters.push(merged);
+  }
+
+  return clusters[0].members;
+}
+
+function orientMerge(left: number[], right: number[], values: number[][]) {
+  const flip = (list: number[]) => [...list].reverse();
+  const options: [number[], number[]][] = [
+    [left, right],
+    [left, flip(right)],
+    [flip(left), right],
+    [flip(left), flip(right)],
+  ];
+  let best = options[0];
+  let bestSeam = -Infinity;
+  options.forEach((option) => {
+    const [head, tail] = option;
+    const seam = values[head[head.length - 1]][tail[0]];
+    if (seam > bestSeam) {
+      bestSeam = seam;
+      best = option;
+    }
+  });
+  return [...best[0], ...best[1]];
+}
@@ -0,0 +1,179 @@
+import type { CodeMetrics } from "@/lib/apiPlaceholders";
+import { sha256Hex } from "@/lib/contentHash";
+import { LANGUAGES, type LanguageId } from "@/lib/languages";
+import type { MatchedRegion } from "@/lib/matchedRegions";
+
+export type ComparisonReportInput = {
+  language: LanguageId;
+  reference: string;
+  submission: string;
+  /** Percentages in [0, 100]. */
+  scores: {
+    plagiarism: number;
+    semantic: number;
+    ast: number;
+    token: number;
+    quality?: number | null;
+  };
+  riskLevel: string;
+  explanation: string;
+  qualityLabel?: string | null;
+  qualityExplanation?: string | null;
+  referenceMetrics?: CodeMetrics;
+  submissionMetrics?: CodeMetrics;
+  matches: MatchedRegion[];
+  engine: string;
+  fallbackReason?: string;
+  generatedAt?: Date;
+};
+
+/**
+ * Renders one comparison as a standalone HTML document (inline styles, no scripts or external
+ * assets) that prints cleanly to PDF. Inputs are fingerprinted with SHA-256 so a printed copy can
+ * be matched to the files it came from.
+ */
+export async function buildComparisonReport(input: ComparisonReportInput): Promise<string> {
+  const generatedAt = input.generatedAt ?? new Date();
+  const [referenceHash, submissionHash] = await Promise.all([sha256Hex(input.reference), sha256Hex(input.submission)]);
+  const language = LANGUAGES[input.language]?.label ?? input.language;
+  const quality = input.scores.quality;
+
+  const scoreRows: [string, string][] = [
+    ["Plagiarism score", formatPercent(input.scores.plagiarism)],
+    ["Risk level", input.riskLevel],
+    ["Semantic similarity", formatPercent(input.scores.semantic)],
+    ["Structural (AST) similarity", formatPercent(input.scores.ast)],
+    ["Token similarity", formatPercent(input.scores.token)],
+    ["Submission quality", quality === undefined || quality === null ? "n/a" : `${formatPercent(quality)}${input.qualityLabel ? ` (${input.qualityLabel})` : ""}`],
+    ["Engine", input.fallbackReason ? `${input.engine} (fallback: ${input.fallbackReason})` : input.engine],
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Plagify comparison report – ${escapeHtml(generatedAt.toISOString())}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<header>
+  <h1>Plagify comparison report</h1>
+  <p class="muted">Generated ${escapeHtml(generatedAt.toISOString())} · ${escapeHtml(language)}</p>
+</header>
+<section>
+  <h2>Inputs</h2>
+  <table class="facts">
+    <tr><th>Reference SHA-256</th><td class="hash">${referenceHash}</td></tr>
+    <tr><th>Submission SHA-256</th><td class="hash">${submissionHash}</td></tr>
+  </table>
+</section>
+<section>
+  <h2>Scores</h2>
+  <table class="facts">
+    ${scoreRows.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join("\n    ")}
+  </table>
+  <h3>Explanation</h3>
+  <p>${escapeHtml(input.explanation)}</p>
+  ${input.qualityExplanation ? `<h3>Quality notes</h3>\n  <p>${escapeHtml(input.qualityExplanation)}</p>` : ""}
+</section>
+<section>
+  <h2>Metrics</h2>
+  ${metricsTable(input.referenceMetrics, input.submissionMetrics)}
+</section>
+<section>
+  <h2>Matched regions</h2>
+  ${matchesTable(input.matches)}
+</section>
+<section class="listing">
+  <h2>Reference</h2>
+  ${codeListing(input.reference, input.matches, "reference")}
+</section>
+<section class="listing">
+  <h2>Submission</h2>
+  ${codeListing(input.submission, input.matches, "submission")}
+</section>
+</body>
+</html>
+`;
+}
+
+const REPORT_CSS = `
+body { font: 14px/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; color: #111; margin: 2rem auto; max-width: 960px; padding: 0 1rem; }
+h1 { font-size: 1.6rem; margin: 0; }
+h2 { font-size: 1.15rem; border-bottom: 1px solid #ccc; padding-bottom: .25rem; margin-top: 2rem; }
+h3 { font-size: 1rem; margin-bottom: .25rem; }
+.muted { color: #555; margin: .25rem 0 0; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: .3rem .6rem; border: 1px solid #ddd; vertical-align: top; }
+.facts th { width: 16rem; background: #f6f6f6; }
+.hash { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 12px; word-break: break-all; }
+.code { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 12px; }
+.code td { border: none; padding: 0 .6rem; white-space: pre-wrap; word-break: break-word; }
+.code td.ln { width: 3rem; color: #888; text-align: right; user-select: none; }
+.code td.tag { width: 2.5rem; font-weight: 600; }
+.swatch { display: inline-block; width: .8rem; height: .8rem; border-radius: 2px; vertical-align: middle; }
+@media print {
+  body { margin: 0; max-width: none; }
+  section { break-inside: avoid-page; }
+  .listing { break-before: page; break-inside: auto; }
+  .code tr { break-inside: avoid; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+}
+`;
+
+function metricsTable(reference?: CodeMetrics, submission?: CodeMetrics) {
+  const keys = [...new Set([...Object.keys(reference ?? {}), ...Object.keys(submission ?? {})])];
+  if (!keys.length) return `<p class="muted">No metrics were reported.</p>`;
+  const cell = (value?: number) => (typeof value === "number" ? String(Number(value.toFixed(2))) : "–");
+  return `<table>
+    <tr><th>Metric</th><th>Reference</th><th>Submission</th></tr>
+    ${keys.map((key) => `<tr><td>${escapeHtml(key)}</td><td>${cell(reference?.[key])}</td><td>${cell(submission?.[key])}</td></tr>`).join("\n    ")}
+  </table>`;
+}
+
+function matchesTable(matches: MatchedRegion[]) {
+  if (!matches.length) return `<p class="muted">No matching regions were found.</p>`;
+  return `<table>
+    <tr><th>Match</th><th>Reference lines</th><th>Submission lines</th><th>Similarity</th><th>Clone type</th></tr>
+    ${matches
+      .map(
+        (match, index) =>
+          `<tr><td><span class="swatch" style="background:${escapeHtml(match.color)}"></span> M${index + 1}</td>` +
+          `<td>${match.reference.startLine}–${match.reference.endLine}</td>` +
+          `<td>${match.submission.startLine}–${match.submission.endLine}</td>` +
+          `<td>${formatPercent(match.similarity * 100)}</td><td>${match.cloneType}</td></tr>`,
+      )
+      .join("\n    ")}
+  </table>`;
+}
+
+function codeListing(code: string, matches: MatchedRegion[], side: "reference" | "submission") {
+  const lines = code.replace(/\r\n?/g, "\n").replace(/\n$/, "").split("\n");
+  const rows = lines.map((line, index) => {
+    const lineNumber = index + 1;
+    const matchIndex = matches.findIndex(
+      (match) => lineNumber >= match[side].startLine && lineNumber <= match[side].endLine,
+    );
+    const match = matches[matchIndex];
+    const style = match ? ` style="background:${escapeHtml(match.color.replace(/[\d.]+\)$/, "0.25)"))}"` : "";
+    return (
+      `<tr${style}><td class="ln">${lineNumber}</td>` +
+      `<td class="tag">${match ? `M${matchIndex + 1}` : ""}</td><td>${escapeHtml(line) || " "}</td></tr>`
+    );
+  });
+  return `<table class="code">\n${rows.join("\n")}\n</table>`;
+}
+
+function formatPercent(value: number) {
+  return `${Math.round(value * 10) / 10}%`;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,5 @@
+// Browser-side SHA-256 (Web Crypto) for fingerprinting inputs in reports, history and sessions.
+export async function sha256Hex(text: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
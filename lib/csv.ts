@@ -0,0 +1,25 @@
+export type CsvValue = string | number | null | undefined;
+
+export type CsvColumn<T> = {
+  header: string;
+  value: (row: T) => CsvValue;
+};
+
+/**
+ * Serializes rows as RFC 4180 CSV (CRLF line endings, quoted where needed). Text cells that a
+ * spreadsheet would run as a formula are prefixed with `'`.
+ */
+export function toCsv<T>(columns: CsvColumn<T>[], rows: T[]): string {
+  const lines = [
+    columns.map((column) => csvCell(column.header)),
+    ...rows.map((row) => columns.map((column) => csvCell(column.value(row)))),
+  ];
+  return `${lines.map((cells) => cells.join(",")).join("\r\n")}\r\n`;
+}
+
+function csvCell(value: CsvValue) {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : "";
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,142 @@
+import { LANGUAGES, languagesForFilename, type LanguageId } from "@/lib/languages";
+
+export type LanguageGuess = {
+  language: LanguageId;
+  /** Share of the content evidence behind the guess; extensions and shebangs count as certain. */
+  confidence: number;
+  source: "extension" | "shebang" | "content";
+};
+
+export type LanguageConflict = {
+  id: string;
+  guess: LanguageGuess;
+};
+
+// Below this share of the evidence a content guess is too weak to warn about.
+const MIN_CONFIDENCE = 0.6;
+const MIN_EVIDENCE = 3;
+const SAMPLE_CHARS = 20_000;
+
+type Signal = { pattern: RegExp; weight: number };
+
+const CONTENT_SIGNALS: Record<LanguageId, Signal[]> = {
+  python: [
+    { pattern: /^\s*def\s+\w+\s*\(.*\)\s*(->\s*[^:]+)?:\s*(#.*)?$/m, weight: 4 },
+    { pattern: /^\s*(if|elif|else|for|while|try|except|finally|with|class)\b[^{;]*:\s*(#.*)?$/m, weight: 2 },
+    { pattern: /^\s*from\s+[\w.]+\s+import\s+\w/m, weight: 3 },
+    { pattern: /^\s*import\s+[\w.]+(\s+as\s+\w+)?\s*$/m, weight: 2 },
+    { pattern: /\belif\b|\bself\.|\bNone\b|\bprint\(/, weight: 2 },
+    { pattern: /\b(and|or|not|is)\s+\w/, weight: 1 },
+  ],
+  java: [
+    { pattern: /\b(public|private|protected)\s+(static\s+)?(final\s+)?(class|interface|enum|record|void|[\w<>[\]]+\s+\w+\s*\()/, weight: 4 },
+    { pattern: /\bSystem\.(out|err)\.print/, weight: 5 },
+    { pattern: /^\s*import\s+(static\s+)?[\w.]+(\.\*)?;/m, weight: 3 },
+    { pattern: /^\s*package\s+[\w.]+;/m, weight: 4 },
+    { pattern: /\bString\[\]\s+\w+|\bnew\s+[A-Z]\w*(<[^>]*>)?\(/, weight: 2 },
+    { pattern: /@Override\b|\bextends\s+[A-Z]\w*|\bimplements\s+[A-Z]/, weight: 2 },
+  ],
+  c: [
+    { pattern: /^\s*#\s*include\s*<\w+\.h>/m, weight: 4 },
+    { pattern: /\b(printf|scanf|malloc|calloc|free|fprintf|strcpy)\s*\(/, weight: 3 },
+    { pattern: /\bint\s+main\s*\(\s*(void|int\s+argc)?/, weight: 2 },
+    { pattern: /\bstruct\s+\w+\s*[{*]|\btypedef\s+struct\b/, weight: 2 },
+    { pattern: /^\s*#\s*define\s+\w+/m, weight: 1 },
+  ],
+  cpp: [
+    { pattern: /^\s*#\s*include\s*<(iostream|vector|string|map|set|algorithm|memory|unordered_map|utility|sstream|fstream)>/m, weight: 5 },
+    { pattern: /\bstd::\w+/, weight: 4 },
+    { pattern: /\b(cout|cin|cerr)\s*(<<|>>)/, weight: 4 },
+    { pattern: /\busing\s+namespace\s+\w+\s*;/, weight: 4 },
+    { pattern: /\btemplate\s*<|\bnullptr\b|\bauto\s*&/, weight: 2 },
+    { pattern: /\bint\s+main\s*\(/, weight: 1 },
+  ],
+  javascript: [
+    { pattern: /\b(const|let)\s+[\w${}[\],\s]+=/, weight: 3 },
+    { pattern: /=>\s*[{(\w]/, weight: 2 },
+    { pattern: /\bfunction\s*\*?\s*[\w$]*\s*\(/, weight: 3 },
+    { pattern: /\bconsole\.(log|error|warn)\(/, weight: 5 },
+    { pattern: /\brequire\(\s*['"]|\bmodule\.exports\b|^\s*export\s+(default|const|function|class)\b/m, weight: 4 },
+    { pattern: /===|!==|\bundefined\b/, weight: 2 },
+  ],
+};
+
+/**
+ * Guesses the language of one source file: the filename extension wins, then a shebang, then
+ * weighted content heuristics. An extension shared by several languages (`.h`) only narrows the
+ * content guess down to those. Returns null when nothing is conclusive.
+ */
+export function detectLanguage(code: string, filename?: string): LanguageGuess | null {
+  const candidates = filename ? languagesForFilename(filename) : [];
+  if (candidates.length === 1) {
+    return { language: candidates[0], confidence: 1, source: "extension" };
+  }
+  if (candidates.length > 1) {
+    const guess = detectFromContent(code);
+    return guess && candidates.includes(guess.language) ? guess : null;
+  }
+
+  const shebang = /^#!.*\b(python[\d.]*|node|nodejs)\b/.exec(code.trimStart().split("\n", 1)[0]);
+  if (shebang) {
+    return { language: shebang[1].startsWith("python") ? "python" : "javascript", confidence: 1, source: "shebang" };
+  }
+
+  return detectFromContent(code);
+}
+
+function detectFromContent(code: string): LanguageGuess | null {
+  const sample = code.slice(0, SAMPLE_CHARS);
+  const scores = Object.fromEntries(
+    (Object.keys(CONTENT_SIGNALS) as LanguageId[]).map((language) => [
+      language,
+      CONTENT_SIGNALS[language].reduce((total, signal) => total + (signal.pattern.test(sample) ? signal.weight : 0), 0),
+    ]),
+  ) as Record<LanguageId, number>;
+  const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+  // C++ reuses most of C, so C evidence counts towards C++ once any C++-only construct shows up
+  if (scores.cpp >= MIN_EVIDENCE) {
+    scores.cpp += scores.c;
+    scores.c = 0;
+  }
+  const [language, score] = (Object.entries(scores) as [LanguageId, number][]).sort((a, b) => b[1] - a[1])[0];
+  if (score < MIN_EVIDENCE) return null;
+
+  const confidence = round(score / total);
+  return confidence >= MIN_CONFIDENCE ? { language, confidence, source: "content" } : null;
+}
+
+/**
+ * Lists the sources whose detected language differs from the selected one. The reference is
+ * reported with the id "reference".
+ */
+export function findLanguageConflicts(
+  language: string,
+  reference: string,
+  submissions: { id: string; code: string; filename?: string }[],
+): LanguageConflict[] {
+  const conflicts: LanguageConflict[] = [];
+  const referenceGuess = detectLanguage(reference);
+  if (referenceGuess && referenceGuess.language !== language) {
+    conflicts.push({ id: "reference", guess: referenceGuess });
+  }
+  submissions.forEach((submission) => {
+    // a header may belong to either C or C++, so it only conflicts when neither is selected
+    if (submission.filename && languagesForFilename(submission.filename).includes(language as LanguageId)) return;
+    const guess = detectLanguage(submission.code, submission.filename);
+    if (guess && guess.language !== language) {
+      conflicts.push({ id: submission.id, guess });
+    }
+  });
+  return conflicts;
+}
+
+export function describeLanguageConflicts(language: string, conflicts: LanguageConflict[]) {
+  const label = LANGUAGES[language as LanguageId]?.label ?? language;
+  const names = conflicts.slice(0, 3).map((conflict) => `${conflict.id} (${LANGUAGES[conflict.guess.language].label})`);
+  const more = conflicts.length > 3 ? ` and ${conflicts.length - 3} more` : "";
+  return `${names.join(", ")}${more} ${conflicts.length === 1 ? "does" : "do"} not look like ${label}.`;
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,347 @@
+export type LanguageId = "python" | "java" | "c" | "cpp" | "javascript";
+
+export type LanguageConfig = {
+  id: LanguageId;
+  label: string;
+  /** Accepted upload extensions, preferred one first. */
+  extensions: string[];
+  /** "indent" languages get INDENT/DEDENT tokens from leading whitespace, "braces" ones from `{` / `}`. */
+  blocks: "indent" | "braces";
+  lineComment: string;
+  blockComment?: [string, string];
+  /** `#` lines are preprocessor directives rather than code. */
+  preprocessor?: boolean;
+  /** Quotes that may span several lines. */
+  multilineQuotes: string[];
+  stringPrefix: RegExp;
+  keywords: Set<string>;
+  /** Library names kept verbatim by normalization instead of becoming `ID`. */
+  builtins: Set<string>;
+  decisionKeywords: Set<string>;
+  decisionOperators: Set<string>;
+  functionKeywords: Set<string>;
+  /** Longest first so the tokenizer matches greedily. */
+  operators: string[];
+  defaults: { reference: string; submission: string };
+};
+
+export const DEFAULT_LANGUAGE: LanguageId = "python";
+
+const C_FAMILY_OPERATORS = [
+  ">>>=", "<<=", ">>=", "===", "!==", ">>>", "...", "->", "::", "++", "--", "&&", "||", "??", "?.", "==",
+  "!=", "<=", ">=", "+=", "-=", "*=", "/=", "%=", "&=", "|=", "^=", "<<", ">>", "=>", "+", "-", "*", "/",
+  "%", "&", "|", "^", "~", "!", "<", ">", "=", ".", "?", "@",
+];
+
+const C_KEYWORDS = [
+  "auto", "break", "case", "char", "const", "continue", "default", "do", "double", "else", "enum", "extern",
+  "float", "for", "goto", "if", "inline", "int", "long", "register", "restrict", "return", "short", "signed",
+  "sizeof", "static", "struct", "switch", "typedef", "union", "unsigned", "void", "volatile", "while", "bool",
+  "true", "false", "NULL",
+];
+
+export const LANGUAGES: Record<LanguageId, LanguageConfig> = {
+  python: {
+    id: "python",
+    label: "Python",
+    extensions: [".py"],
+    blocks: "indent",
+    lineComment: "#",
+    multilineQuotes: ['"""', "'''"],
+    stringPrefix: /^([rRbBuUfF]{0,2})("""|'''|"|')/,
+    keywords: new Set([
+      "False", "None", "True", "and", "as", "assert", "async", "await", "break", "class", "continue",
+      "def", "del", "elif", "else", "except", "finally", "for", "from", "global", "if", "import", "in",
+      "is", "lambda", "match", "case", "nonlocal", "not", "or", "pass", "raise", "return", "try",
+      "while", "with", "yield",
+    ]),
+    builtins: new Set([
+      "abs", "all", "any", "bool", "dict", "enumerate", "filter", "float", "int", "isinstance", "len",
+      "list", "map", "max", "min", "open", "print", "range", "reversed", "round", "set", "sorted",
+      "str", "sum", "super", "tuple", "type", "zip", "self",
+    ]),
+    decisionKeywords: new Set(["if", "elif", "for", "while", "and", "or", "except", "case", "assert"]),
+    decisionOperators: new Set(),
+    functionKeywords: new Set(["def"]),
+    operators: [
+      "**=", "//=", ">>=", "<<=", "...", "->", ":=", "**", "//", "==", "!=", "<=", ">=", "+=", "-=", "*=",
+      "/=", "%=", "&=", "|=", "^=", ">>", "<<", "+", "-", "*", "/", "%", "@", "&", "|", "^", "~", "<",
+      ">", "=", ".",
+    ],
+    defaults: {
+      reference: `def normalize_scores(scores):
+    if not scores:
+        return []
+    maximum = max(scores)
+    return [round(score / maximum, 2) for score in scores]
+`,
+      submission: `def normalize_scores(scores):
+    if not isinstance(scores, list):
+        return []
+    peak = max(scores + [1])
+    normalized = []
+    for score in scores:
+        normalized.append(round(score / peak, 2))
+    return normalized
+`,
+    },
+  },
+  java: {
+    id: "java",
+    label: "Java",
+    extensions: [".java"],
+    blocks: "braces",
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    multilineQuotes: ['"""'],
+    stringPrefix: /^()("""|"|')/,
+    keywords: new Set([
+      "abstract", "assert", "boolean", "break", "byte", "case", "catch", "char", "class", "const", "continue",
+      "default", "do", "double", "else", "enum", "extends", "final", "finally", "float", "for", "goto", "if",
+      "implements", "import", "instanceof", "int", "interface", "long", "native", "new", "package", "private",
+      "protected", "public", "return", "short", "static", "strictfp", "super", "switch", "synchronized", "this",
+      "throw", "throws", "transient", "try", "void", "volatile", "while", "var", "record", "yield", "true",
+      "false", "null",
+    ]),
+    builtins: new Set([
+      "System", "String", "Math", "Integer", "Double", "List", "ArrayList", "Map", "HashMap", "Set", "HashSet",
+      "Arrays", "Collections", "Object", "out", "println", "print", "length", "size", "add", "get", "put",
+    ]),
+    decisionKeywords: new Set(["if", "for", "while", "case", "catch"]),
+    decisionOperators: new Set(["&&", "||", "?"]),
+    functionKeywords: new Set(),
+    operators: C_FAMILY_OPERATORS,
+    defaults: {
+      reference: `import java.util.ArrayList;
+import java.util.List;
+
+public class Scores {
+    public static List<Double> normalizeScores(List<Double> scores) {
+        List<Double> result = new ArrayList<>();
+        if (scores.isEmpty()) {
+            return result;
+        }
+        double maximum = java.util.Collections.max(scores);
+        for (double score : scores) {
+            result.add(Math.round(score / maximum * 100) / 100.0);
+        }
+        return result;
+    }
+}
+`,
+      submission: `import java.util.ArrayList;
+import java.util.List;
+
+public class Grades {
+    public static List<Double> scale(List<Double> values) {
+        List<Double> scaled = new ArrayList<>();
+        if (values == null || values.isEmpty()) {
+            return scaled;
+        }
+        double peak = 1;
+        for (double value : values) {
+            peak = Math.max(peak, value);
+        }
+        for (double value : values) {
+            scaled.add(Math.round(value / peak * 100) / 100.0);
+        }
+        return scaled;
+    }
+}
+`,
+    },
+  },
+  c: {
+    id: "c",
+    label: "C",
+    extensions: [".c", ".h"],
+    blocks: "braces",
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    preprocessor: true,
+    multilineQuotes: [],
+    stringPrefix: /^(L|u8|u|U)?("|')/,
+    keywords: new Set(C_KEYWORDS),
+    builtins: new Set([
+      "printf", "scanf", "puts", "malloc", "calloc", "realloc", "free", "strlen", "strcpy", "strcmp", "memcpy",
+      "memset", "size_t", "FILE", "fopen", "fclose", "main",
+    ]),
+    decisionKeywords: new Set(["if", "for", "while", "case"]),
+    decisionOperators: new Set(["&&", "||", "?"]),
+    functionKeywords: new Set(),
+    operators: C_FAMILY_OPERATORS,
+    defaults: {
+      reference: `#include <stddef.h>
+
+void normalize_scores(double *scores, size_t count) {
+    if (count == 0) {
+        return;
+    }
+    double maximum = scores[0];
+    for (size_t i = 1; i < count; i++) {
+        if (scores[i] > maximum) {
+            maximum = scores[i];
+        }
+    }
+    for (size_t i = 0; i < count; i++) {
+        scores[i] = scores[i] / maximum;
+    }
+}
+`,
+      submission: `#include <stddef.h>
+
+void scale_values(double *values, size_t n) {
+    double peak = 1;
+    size_t k;
+    for (k = 0; k < n; k++) {
+        if (values[k] > peak) peak = values[k];
+    }
+    for (k = 0; k < n; k++) {
+        values[k] = values[k] / peak;
+    }
+}
+`,
+    },
+  },
+  cpp: {
+    id: "cpp",
+    label: "C++",
+    extensions: [".cpp", ".cc", ".cxx", ".hpp", ".hh", ".hxx", ".h"],
+    blocks: "braces",
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    preprocessor: true,
+    multilineQuotes: [],
+    stringPrefix: /^(L|u8|u|U|R)?("|')/,
+    keywords: new Set([
+      ...C_KEYWORDS,
+      "alignas", "alignof", "and", "asm", "catch", "class", "constexpr", "const_cast", "decltype", "delete",
+      "dynamic_cast", "explicit", "export", "friend", "mutable", "namespace", "new", "noexcept", "not", "nullptr",
+      "operator", "or", "private", "protected", "public", "reinterpret_cast", "static_assert", "static_cast",
+      "template", "this", "thread_local", "throw", "try", "typeid", "typename", "using", "virtual", "wchar_t",
+      "override", "final",
+    ]),
+    builtins: new Set([
+      "std", "cout", "cin", "cerr", "endl", "string", "vector", "map", "unordered_map", "set", "pair", "size",
+      "push_back", "begin", "end", "max", "min", "sort", "make_pair", "main", "size_t",
+    ]),
+    decisionKeywords: new Set(["if", "for", "while", "case", "catch"]),
+    decisionOperators: new Set(["&&", "||", "?"]),
+    functionKeywords: new Set(),
+    operators: C_FAMILY_OPERATORS,
+    defaults: {
+      reference: `#include <algorithm>
+#include <vector>
+
+std::vector<double> normalizeScores(const std::vector<double>& scores) {
+    if (scores.empty()) {
+        return {};
+    }
+    double maximum = *std::max_element(scores.begin(), scores.end());
+    std::vector<double> result;
+    for (double score : scores) {
+        result.push_back(score / maximum);
+    }
+    return result;
+}
+`,
+      submission: `#include <vector>
+
+std::vector<double> scale(const std::vector<double>& values) {
+    std::vector<double> scaled;
+    double peak = 1;
+    for (double value : values) {
+        peak = std::max(peak, value);
+    }
+    for (double value : values) {
+        scaled.push_back(value / peak);
+    }
+    return scaled;
+}
+`,
+    },
+  },
+  javascript: {
+    id: "javascript",
+    label: "JavaScript",
+    extensions: [".js", ".mjs", ".cjs", ".jsx"],
+    blocks: "braces",
+    lineComment: "//",
+    blockComment: ["/*", "*/"],
+    multilineQuotes: ["`"],
+    stringPrefix: /^()(`|"|')/,
+    keywords: new Set([
+      "break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete", "do", "else",
+      "export", "extends", "finally", "for", "function", "if", "import", "in", "instanceof", "let", "new",
+      "return", "super", "switch", "this", "throw", "try", "typeof", "var", "void", "while", "with", "yield",
+      "async", "await", "of", "true", "false", "null", "undefined", "static",
+    ]),
+    builtins: new Set([
+      "console", "log", "Math", "Array", "Object", "JSON", "String", "Number", "Promise", "length", "push",
+      "map", "filter", "reduce", "forEach", "parseInt", "parseFloat", "document", "window", "require", "module",
+      "exports",
+    ]),
+    decisionKeywords: new Set(["if", "for", "while", "case", "catch"]),
+    decisionOperators: new Set(["&&", "||", "?", "??"]),
+    functionKeywords: new Set(["function"]),
+    operators: C_FAMILY_OPERATORS,
+    defaults: {
+      reference: `function normalizeScores(scores) {
+  if (!scores.length) {
+    return [];
+  }
+  const maximum = Math.max(...scores);
+  return scores.map((score) => Math.round((score / maximum) * 100) / 100);
+}
+`,
+      submission: `function scale(values) {
+  if (!Array.isArray(values)) {
+    return [];
+  }
+  const peak = Math.max(...values, 1);
+  const scaled = [];
+  for (const value of values) {
+    scaled.push(Math.round((value / peak) * 100) / 100);
+  }
+  return scaled;
+}
+`,
+    },
+  },
+};
+
+export const LANGUAGE_OPTIONS = Object.values(LANGUAGES);
+
+/** Every extension the checker accepts, whatever language is selected. */
+export const SOURCE_EXTENSIONS = [...new Set(LANGUAGE_OPTIONS.flatMap((language) => language.extensions))];
+
+const ALIASES: Record<string, LanguageId> = {
+  py: "python",
+  "c++": "cpp",
+  cxx: "cpp",
+  js: "javascript",
+  node: "javascript",
+};
+
+export function getLanguage(id?: string): LanguageConfig {
+  return LANGUAGES[resolveLanguageId(id) ?? DEFAULT_LANGUAGE];
+}
+
+export function resolveLanguageId(id?: string): LanguageId | null {
+  const key = id?.trim().toLowerCase() ?? "";
+  if (key in LANGUAGES) return key as LanguageId;
+  return ALIASES[key] ?? null;
+}
+
+/** Null when the extension is unknown or shared by several languages, like `.h`. */
+export function languageForFilename(name: string): LanguageId | null {
+  const candidates = languagesForFilename(name);
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+/** Every language that claims the file's extension. */
+export function languagesForFilename(name: string): LanguageId[] {
+  const extension = name.toLowerCase().match(/\.[^./\\]+$/)?.[0];
+  if (!extension) return [];
+  return LANGUAGE_OPTIONS.filter((language) => language.extensions.includes(extension)).map((language) => language.id);
+}
@@ -0,0 +1,871 @@
+import type {
+  BulkComparePayload,
+  BulkCompareResponse,
+  CodeMetrics,
+  CompareCodesPayload,
+  CompareCodesResponse,
+} from "@/lib/apiPlaceholders";
+import type { ASTNode } from "@/lib/ast";
+import { getLanguage, type LanguageConfig } from "@/lib/languages";
+
+export type TokenKind =
+  | "keyword"
+  | "identifier"
+  | "number"
+  | "string"
+  | "operator"
+  | "punctuation"
+  | "newline"
+  | "indent"
+  | "dedent";
+
+export type CodeToken = {
+  kind: TokenKind;
+  text: string;
+  line: number;
+  normalized: string;
+};
+
+export type Fingerprint = {
+  hash: number;
+  start: number;
+  end: number;
+};
+
+export type FingerprintOptions = {
+  k?: number;
+  window?: number;
+};
+
+export type SimilarityScores = {
+  tokenSimilarity: number;
+  structuralSimilarity: number;
+  semanticSimilarity: number;
+  plagiarismScore: number;
+};
+
+export type SimilarityProfile = {
+  prints: Set<number>;
+  structure: Map<string, number>;
+  terms: Map<string, number>;
+};
+
+/** Bump whenever scoring changes so cached local results are not reused. */
+export const LOCAL_ENGINE_VERSION = "local-1";
+
+const DEFAULT_K = 5;
+const DEFAULT_WINDOW = 4;
+const STRUCTURE_K = 3;
+
+const PUNCTUATION = new Set(["(", ")", "[", "]", "{", "}", ",", ":", ";"]);
+const FUNCTION_SUFFIX_KEYWORDS = new Set(["const", "override", "noexcept", "final"]);
+
+export function tokenize(code: string, language?: string): CodeToken[] {
+  const config = getLanguage(language);
+  return config.blocks === "indent" ? tokenizeIndented(code, config) : tokenizeBraced(code, config);
+}
+
+function tokenizeIndented(code: string, config: LanguageConfig): CodeToken[] {
+  const tokens: CodeToken[] = [];
+  const indentStack = [0];
+  const lines = code.replace(/\r\n?/g, "\n").split("\n");
+  let depth = 0;
+  let pendingString: { quote: string; text: string; line: number } | null = null;
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    let cursor = 0;
+
+    if (pendingString) {
+      const closeAt = rawLine.indexOf(pendingString.quote);
+      if (closeAt === -1) {
+        pendingString.text += `\n${rawLine}`;
+        return;
+      }
+      cursor = closeAt + pendingString.quote.length;
+      pendingString.text += `\n${rawLine.slice(0, cursor)}`;
+      tokens.push({ kind: "string", text: pendingString.text, line: pendingString.line, normalized: "STR" });
+      pendingString = null;
+    } else if (depth === 0) {
+      const trimmed = rawLine.trim();
+      if (!trimmed || trimmed.startsWith(config.lineComment)) return;
+      const indent = measureIndent(rawLine);
+      if (indent > indentStack[indentStack.length - 1]) {
+        indentStack.push(indent);
+        tokens.push({ kind: "indent", text: "", line: lineNumber, normalized: "INDENT" });
+      }
+      while (indent < indentStack[indentStack.length - 1]) {
+        indentStack.pop();
+        tokens.push({ kind: "dedent", text: "", line: lineNumber, normalized: "DEDENT" });
+      }
+    }
+
+    while (cursor < rawLine.length) {
+      const rest = rawLine.slice(cursor);
+      const char = rawLine[cursor];
+
+      if (/\s/.test(char)) {
+        cursor += 1;
+        continue;
+      }
+      if (rest.startsWith(config.lineComment)) break;
+
+      const stringMatch = config.stringPrefix.exec(rest);
+      if (stringMatch) {
+        const quote = stringMatch[2];
+        const bodyStart = cursor + stringMatch[0].length;
+        const closeAt = findClosingQuote(rawLine, bodyStart, quote);
+        if (closeAt === -1 && config.multilineQuotes.includes(quote)) {
+          pendingString = { quote, text: rawLine.slice(cursor), line: lineNumber };
+          cursor = rawLine.length;
+          continue;
+        }
+        const end = closeAt === -1 ? rawLine.length : closeAt + quote.length;
+        tokens.push({ kind: "string", text: rawLine.slice(cursor, end), line: lineNumber, normalized: "STR" });
+        cursor = end;
+        continue;
+      }
+
+      const atom = scanAtom(rest, config, lineNumber);
+      if (atom) {
+        if (atom.text === "(" || atom.text === "[" || atom.text === "{") depth += 1;
+        if (atom.text === ")" || atom.text === "]" || atom.text === "}") depth = Math.max(0, depth - 1);
+        tokens.push(atom);
+        cursor += atom.text.length;
+        continue;
+      }
+
+      cursor += 1;
+    }
+
+    const continues = rawLine.trimEnd().endsWith("\\");
+    if (!pendingString && depth === 0 && !continues && tokens.length && tokens[tokens.length - 1].kind !== "newline") {
+      tokens.push({ kind: "newline", text: "", line: lineNumber, normalized: "NL" });
+    }
+  });
+
+  while (indentStack.length > 1) {
+    indentStack.pop();
+    tokens.push({ kind: "dedent", text: "", line: lines.length, normalized: "DEDENT" });
+  }
+
+  return tokens;
+}
+
+// Brace languages: `{` / `}` become INDENT / DEDENT and statements end at `;` or at a line break that
+// does not leave an expression open, so the structural features line up with the indented tokenizer.
+function tokenizeBraced(code: string, config: LanguageConfig): CodeToken[] {
+  const tokens: CodeToken[] = [];
+  const lines = code.replace(/\r\n?/g, "\n").split("\n");
+  const parenStack: number[] = [];
+  let parens = 0;
+  let inBlockComment = false;
+  let pendingString: { quote: string; text: string; line: number } | null = null;
+
+  const endStatement = (line: number) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind !== "newline" && last.kind !== "indent") {
+      tokens.push({ kind: "newline", text: "", line, normalized: "NL" });
+    }
+  };
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    let cursor = 0;
+
+    if (pendingString) {
+      const closeAt = findClosingQuote(rawLine, 0, pendingString.quote);
+      if (closeAt === -1) {
+        pendingString.text += `\n${rawLine}`;
+        return;
+      }
+      cursor = closeAt + pendingString.quote.length;
+      pendingString.text += `\n${rawLine.slice(0, cursor)}`;
+      tokens.push({ kind: "string", text: pendingString.text, line: pendingString.line, normalized: "STR" });
+      pendingString = null;
+    } else if (!inBlockComment && config.preprocessor && rawLine.trimStart().startsWith("#")) {
+      const directive = rawLine.trim().split(config.lineComment)[0].trim();
+      tokens.push({
+        kind: "keyword",
+        text: directive,
+        line: lineNumber,
+        normalized: /^#\s*\w+/.exec(directive)?.[0].replace(/\s+/g, "") ?? "#",
+      });
+      endStatement(lineNumber);
+      return;
+    }
+
+    while (cursor < rawLine.length) {
+      const rest = rawLine.slice(cursor);
+      const char = rawLine[cursor];
+
+      if (inBlockComment) {
+        const closeAt = config.blockComment ? rawLine.indexOf(config.blockComment[1], cursor) : -1;
+        if (closeAt === -1) {
+          cursor = rawLine.length;
+          continue;
+        }
+        cursor = closeAt + (config.blockComment?.[1].length ?? 0);
+        inBlockComment = false;
+        continue;
+      }
+      if (/\s/.test(char)) {
+        cursor += 1;
+        continue;
+      }
+      if (rest.startsWith(config.lineComment)) break;
+      if (config.blockComment && rest.startsWith(config.blockComment[0])) {
+        inBlockComment = true;
+        cursor += config.blockComment[0].length;
+        continue;
+      }
+
+      const stringMatch = config.stringPrefix.exec(rest);
+      if (stringMatch) {
+        const quote = stringMatch[2];
+        const bodyStart = cursor + stringMatch[0].length;
+        const closeAt = findClosingQuote(rawLine, bodyStart, quote);
+        if (closeAt === -1 && config.multilineQuotes.includes(quote)) {
+          pendingString = { quote, text: rawLine.slice(cursor), line: lineNumber };
+          cursor = rawLine.length;
+          continue;
+        }
+        const end = closeAt === -1 ? rawLine.length : closeAt + quote.length;
+        tokens.push({ kind: "string", text: rawLine.slice(cursor, end), line: lineNumber, normalized: "STR" });
+        cursor = end;
+        continue;
+      }
+
+      const atom = scanAtom(rest, config, lineNumber);
+      if (!atom) {
+        cursor += 1;
+        continue;
+      }
+      cursor += atom.text.length;
+
+      if (atom.text === "{") {
+        tokens.push(atom);
+        tokens.push({ kind: "indent", text: "", line: lineNumber, normalized: "INDENT" });
+        // callbacks and lambdas open blocks inside call parentheses; their statements still end at `;`
+        parenStack.push(parens);
+        parens = 0;
+        continue;
+      }
+      if (atom.text === "}") {
+        endStatement(lineNumber);
+        tokens.push({ kind: "dedent", text: "", line: lineNumber, normalized: "DEDENT" });
+        tokens.push(atom);
+        parens = parenStack.pop() ?? 0;
+        continue;
+      }
+      if (atom.text === "(" || atom.text === "[") parens += 1;
+      if (atom.text === ")" || atom.text === "]") parens = Math.max(0, parens - 1);
+      tokens.push(atom);
+      if (atom.text === ";" && parens === 0) endStatement(lineNumber);
+    }
+
+    const last = tokens[tokens.length - 1];
+    const open =
+      !last ||
+      (last.kind === "operator" && last.text !== "++" && last.text !== "--") ||
+      last.text === "," ||
+      last.text === "(" ||
+      last.text === "[";
+    if (!pendingString && !inBlockComment && parens === 0 && !open) {
+      endStatement(lineNumber);
+    }
+  });
+
+  return tokens;
+}
+
+const INDENTED_NUMBER = /^(?:0[xXoObB][\da-fA-F_]+|\d[\d_]*\.?[\d_]*(?:[eE][+-]?\d+)?j?|\.\d[\d_]*)/;
+const BRACED_NUMBER = /^(?:0[xXbB][\da-fA-F_']+[lLuUn]*|\d[\d_']*\.?[\d_']*(?:[eE][+-]?\d+)?[fFlLuUdDn]*|\.\d[\d_']*[fFdD]?)/;
+
+function scanAtom(rest: string, config: LanguageConfig, line: number): CodeToken | null {
+  const braced = config.blocks === "braces";
+  const numberMatch = (braced ? BRACED_NUMBER : INDENTED_NUMBER).exec(rest);
+  if (numberMatch) {
+    return { kind: "number", text: numberMatch[0], line, normalized: "NUM" };
+  }
+
+  const wordMatch = (braced ? /^[A-Za-z_$][A-Za-z0-9_$]*/ : /^[A-Za-z_][A-Za-z0-9_]*/).exec(rest);
+  if (wordMatch) {
+    const word = wordMatch[0];
+    if (config.keywords.has(word)) {
+      return { kind: "keyword", text: word, line, normalized: word };
+    }
+    return { kind: "identifier", text: word, line, normalized: config.builtins.has(word) ? word : "ID" };
+  }
+
+  // brace languages have multi-character operators that start with punctuation (`::`)
+  const operator = config.operators.find((candidate) => rest.startsWith(candidate));
+  if (operator && (braced || !PUNCTUATION.has(rest[0]))) {
+    return { kind: "operator", text: operator, line, normalized: operator };
+  }
+  if (PUNCTUATION.has(rest[0])) {
+    return { kind: "punctuation", text: rest[0], line, normalized: rest[0] };
+  }
+  return null;
+}
+
+export function fingerprint(tokens: CodeToken[], options: FingerprintOptions = {}): Fingerprint[] {
+  const k = Math.max(1, options.k ?? DEFAULT_K);
+  const windowSize = Math.max(1, options.window ?? DEFAULT_WINDOW);
+  const significant = tokens.filter(isSignificantToken);
+  if (significant.length < k) {
+    return significant.length
+      ? [{ hash: hashString(significant.map((token) => token.normalized).join(" ")), start: 0, end: significant.length - 1 }]
+      : [];
+  }
+
+  const grams: Fingerprint[] = [];
+  for (let index = 0; index + k <= significant.length; index += 1) {
+    const gram = significant.slice(index, index + k).map((token) => token.normalized).join(" ");
+    grams.push({ hash: hashString(gram), start: index, end: index + k - 1 });
+  }
+
+  return winnow(grams, windowSize);
+}
+
+export function buildProfile(tokens: CodeToken[]): SimilarityProfile {
+  return {
+    prints: new Set(fingerprint(tokens).map((entry) => entry.hash)),
+    structure: structureGrams(tokens),
+    terms: termFrequencies(tokens),
+  };
+}
+
+export function compareProfiles(reference: SimilarityProfile, submission: SimilarityProfile): SimilarityScores {
+  const tokenSimilarity = jaccard(reference.prints, submission.prints);
+  const structuralSimilarity = diceMultiset(reference.structure, submission.structure);
+  const semanticSimilarity = cosine(reference.terms, submission.terms);
+  const plagiarismScore = 0.4 * tokenSimilarity + 0.35 * structuralSimilarity + 0.25 * semanticSimilarity;
+
+  return {
+    tokenSimilarity: round(tokenSimilarity, 4),
+    structuralSimilarity: round(structuralSimilarity, 4),
+    semanticSimilarity: round(semanticSimilarity, 4),
+    plagiarismScore: round(plagiarismScore, 4),
+  };
+}
+
+export function compareTokens(reference: CodeToken[], submission: CodeToken[]): SimilarityScores {
+  return compareProfiles(buildProfile(reference), buildProfile(submission));
+}
+
+export function compareLocally(payload: CompareCodesPayload): CompareCodesResponse {
+  const language = getLanguage(payload.language).id;
+  const referenceTokens = tokenize(payload.reference_code, language);
+  const submissionTokens = tokenize(payload.submission_code, language);
+  const scores = compareTokens(referenceTokens, submissionTokens);
+  const referenceMetrics = computeMetrics(payload.reference_code, referenceTokens, language);
+  const submissionMetrics = computeMetrics(payload.submission_code, submissionTokens, language);
+  const quality = scoreQuality(submissionMetrics);
+  const riskLevel = riskLevelFor(scores.plagiarismScore);
+
+  return {
+    ok: true,
+    engine: "local",
+    plagiarism_score: scores.plagiarismScore,
+    risk_level: riskLevel,
+    semantic_similarity: scores.semanticSimilarity,
+    ast_similarity: scores.structuralSimilarity,
+    token_similarity: scores.tokenSimilarity,
+    explanation: explainScores(scores, riskLevel),
+    submission_quality_score: quality.score / 100,
+    submission_quality_label: quality.label,
+    submission_quality_explanation: quality.explanation,
+    reference: {
+      metrics: referenceMetrics,
+      ast: buildOutlineAst(payload.reference_code, language),
+    },
+    submission: {
+      metrics: submissionMetrics,
+      ast: buildOutlineAst(payload.submission_code, language),
+    },
+    normalized: {
+      reference_code: normalizeCode(referenceTokens),
+      submission_code: normalizeCode(submissionTokens),
+    },
+  };
+}
+
+export function bulkCompareLocally(payload: BulkComparePayload): BulkCompareResponse {
+  return {
+    ok: true,
+    results: payload.submissions.map((submission) => {
+      const single = compareLocally({
+        language: payload.language,
+        reference_code: payload.reference_code,
+        submission_code: submission.code,
+      });
+      return {
+        id: submission.id,
+        ok: true,
+        plagiarism_score: single.plagiarism_score,
+        risk_level: single.risk_level,
+        semantic_similarity: single.semantic_similarity,
+        ast_similarity: single.ast_similarity,
+        token_similarity: single.token_similarity,
+        explanation: single.explanation ?? "",
+        quality_score: single.submission_quality_score,
+        quality_label: single.submission_quality_label,
+        quality_explanation: single.submission_quality_explanation,
+        submission_ast: single.submission.ast,
+        reference_ast: single.reference.ast,
+        normalized_code: single.normalized?.submission_code,
+        normalized_reference_code: single.normalized?.reference_code,
+        metrics: single.submission.metrics,
+        error: null,
+      };
+    }),
+  };
+}
+
+export function computeMetrics(code: string, tokens?: CodeToken[], language?: string): CodeMetrics {
+  const config = getLanguage(language);
+  const stream = tokens ?? tokenize(code, config.id);
+  const codeLines = new Set(stream.filter(isSignificantToken).map((token) => token.line));
+  let nesting = 0;
+  let maxNesting = 0;
+  let decisions = 0;
+  let functions = 0;
+
+  stream.forEach((token, index) => {
+    if (token.kind === "indent") {
+      nesting += 1;
+      maxNesting = Math.max(maxNesting, nesting);
+    } else if (token.kind === "dedent") {
+      nesting = Math.max(0, nesting - 1);
+    } else if (token.kind === "keyword") {
+      if (config.decisionKeywords.has(token.text)) decisions += 1;
+      if (config.functionKeywords.has(token.text)) functions += 1;
+    } else if (token.kind === "operator") {
+      if (config.decisionOperators.has(token.text)) decisions += 1;
+    } else if (token.text === "{" && config.blocks === "braces" && opensFunctionBody(stream, index, config)) {
+      functions += 1;
+    }
+  });
+
+  return {
+    loc: codeLines.size,
+    cyclomatic: decisions + 1,
+    max_nesting: maxNesting,
+    num_functions: functions,
+  };
+}
+
+// `name(...) {` and `(...) => {` open a function body in brace languages, unless the name is a control
+// keyword (`if (...) {`), a constructor call (`new Foo() {`) or already counted through `function`.
+function opensFunctionBody(tokens: CodeToken[], braceIndex: number, config: LanguageConfig) {
+  let index = braceIndex - 1;
+  if (tokens[index]?.text === "=>") return true;
+  while (index >= 0 && tokens[index].kind !== "punctuation") {
+    if (tokens[index].text === "throws") {
+      index -= 1;
+      while (index >= 0 && (tokens[index].kind === "identifier" || tokens[index].text === "," || tokens[index].text === ".")) {
+        index -= 1;
+      }
+    } else if (FUNCTION_SUFFIX_KEYWORDS.has(tokens[index].text)) {
+      index -= 1;
+    } else {
+      return false;
+    }
+  }
+  if (tokens[index]?.text !== ")") return false;
+
+  let depth = 0;
+  for (; index >= 0; index -= 1) {
+    if (tokens[index].text === ")") depth += 1;
+    if (tokens[index].text === "(") depth -= 1;
+    if (depth === 0) break;
+  }
+  const name = tokens[index - 1];
+  const before = tokens[index - 2];
+  return (
+    name?.kind === "identifier" &&
+    before?.text !== "new" &&
+    !(before && config.functionKeywords.has(before.text))
+  );
+}
+
+export function normalizeCode(tokens: CodeToken[]): string {
+  const renames = new Map<string, string>();
+  const lines: string[] = [];
+  let current: string[] = [];
+  let indent = 0;
+
+  const flush = () => {
+    if (!current.length) return;
+    lines.push(`${"    ".repeat(indent)}${joinTokens(current)}`);
+    current = [];
+  };
+
+  tokens.forEach((token) => {
+    switch (token.kind) {
+      case "newline":
+        flush();
+        return;
+      case "indent":
+        flush();
+        indent += 1;
+        return;
+      case "dedent":
+        flush();
+        indent = Math.max(0, indent - 1);
+        return;
+      case "identifier": {
+        if (token.normalized !== "ID") {
+          current.push(token.text);
+          return;
+        }
+        if (!renames.has(token.text)) {
+          renames.set(token.text, `var_${renames.size + 1}`);
+        }
+        current.push(renames.get(token.text) as string);
+        return;
+      }
+      default:
+        current.push(token.text);
+    }
+  });
+  flush();
+
+  return lines.length ? `${lines.join("\n")}\n` : "";
+}
+
+export function riskLevelFor(score: number) {
+  if (score >= 0.75) return "high";
+  if (score >= 0.4) return "medium";
+  return "low";
+}
+
+export function isSignificantToken(token: CodeToken) {
+  return token.kind !== "newline" && token.kind !== "indent" && token.kind !== "dedent";
+}
+
+function winnow(grams: Fingerprint[], windowSize: number): Fingerprint[] {
+  if (grams.length <= windowSize) {
+    return [grams.reduce((min, gram) => (gram.hash < min.hash ? gram : min), grams[0])];
+  }
+  const selected: Fingerprint[] = [];
+  let lastIndex = -1;
+  for (let start = 0; start + windowSize <= grams.length; start += 1) {
+    let minIndex = start;
+    for (let index = start + 1; index < start + windowSize; index += 1) {
+      if (grams[index].hash <= grams[minIndex].hash) minIndex = index;
+    }
+    if (minIndex !== lastIndex) {
+      selected.push(grams[minIndex]);
+      lastIndex = minIndex;
+    }
+  }
+  return selected;
+}
+
+function structureGrams(tokens: CodeToken[]): Map<string, number> {
+  const skeleton = tokens
+    .filter((token) => token.kind !== "identifier" && token.kind !== "number" && token.kind !== "string")
+    .map((token) => token.normalized);
+  const grams = new Map<string, number>();
+  for (let index = 0; index + STRUCTURE_K <= skeleton.length; index += 1) {
+    const gram = skeleton.slice(index, index + STRUCTURE_K).join(" ");
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+function termFrequencies(tokens: CodeToken[]): Map<string, number> {
+  const terms = new Map<string, number>();
+  tokens.forEach((token) => {
+    if (token.kind !== "identifier" && token.kind !== "keyword") return;
+    splitIdentifier(token.text).forEach((term) => {
+      terms.set(term, (terms.get(term) ?? 0) + 1);
+    });
+  });
+  return terms;
+}
+
+function splitIdentifier(identifier: string) {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[_\s]+/)
+    .map((part) => part.toLowerCase())
+    .filter(Boolean);
+}
+
+function jaccard(a: Set<number>, b: Set<number>) {
+  if (!a.size && !b.size) return 1;
+  let shared = 0;
+  a.forEach((value) => {
+    if (b.has(value)) shared += 1;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function diceMultiset(a: Map<string, number>, b: Map<string, number>) {
+  const totalA = sumValues(a);
+  const totalB = sumValues(b);
+  if (!totalA && !totalB) return 1;
+  let shared = 0;
+  a.forEach((count, key) => {
+    shared += Math.min(count, b.get(key) ?? 0);
+  });
+  return (2 * shared) / (totalA + totalB);
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>) {
+  let dot = 0;
+  a.forEach((count, key) => {
+    dot += count * (b.get(key) ?? 0);
+  });
+  const magnitude = Math.sqrt(sumSquares(a)) * Math.sqrt(sumSquares(b));
+  if (!magnitude) return a.size === b.size ? 1 : 0;
+  return dot / magnitude;
+}
+
+function sumValues(map: Map<string, number>) {
+  let total = 0;
+  map.forEach((value) => {
+    total += value;
+  });
+  return total;
+}
+
+function sumSquares(map: Map<string, number>) {
+  let total = 0;
+  map.forEach((value) => {
+    total += value * value;
+  });
+  return total;
+}
+
+function scoreQuality(metrics: CodeMetrics) {
+  const cyclomatic = metrics.cyclomatic ?? 1;
+  const nesting = metrics.max_nesting ?? 0;
+  const loc = metrics.loc ?? 0;
+  const functions = Math.max(1, metrics.num_functions ?? 0);
+  const penalties =
+    Math.max(0, cyclomatic - 5) * 4 +
+    Math.max(0, nesting - 3) * 8 +
+    Math.max(0, loc / functions - 40) * 0.5;
+  const score = Math.round(Math.max(0, Math.min(100, 100 - penalties)));
+  const label = score >= 85 ? "excellent" : score >= 70 ? "good" : score >= 50 ? "fair" : "poor";
+  const explanation = `Local estimate from ${loc} lines, cyclomatic complexity ${cyclomatic} and nesting depth ${nesting}.`;
+  return { score, label, explanation };
+}
+
+function explainScores(scores: SimilarityScores, riskLevel: string) {
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  return (
+    `Offline engine: ${percent(scores.tokenSimilarity)} of winnowed token fingerprints overlap, ` +
+    `structural skeletons agree at ${percent(scores.structuralSimilarity)} and identifier vocabulary at ` +
+    `${percent(scores.semanticSimilarity)}, which rates as ${riskLevel} risk.`
+  );
+}
+
+function buildOutlineAst(code: string, language?: string): ASTNode[] {
+  const config = getLanguage(language);
+  return config.blocks === "braces" ? buildBracedOutline(code, config) : buildIndentedOutline(code, config);
+}
+
+function buildIndentedOutline(code: string, config: LanguageConfig): ASTNode[] {
+  const root: ASTNode = { type: "Module", children: [] };
+  const stack: { indent: number; node: ASTNode }[] = [{ indent: -1, node: root }];
+
+  code.replace(/\r\n?/g, "\n").split("\n").forEach((rawLine) => {
+    const trimmed = rawLine.trim();
+    if (!trimmed || trimmed.startsWith(config.lineComment)) return;
+    const indent = measureIndent(rawLine);
+    while (stack.length > 1 && indent <= stack[stack.length - 1].indent) {
+      stack.pop();
+    }
+    const node = outlineNode(trimmed);
+    const parent = stack[stack.length - 1].node;
+    parent.children = [...(parent.children ?? []), node];
+    if (trimmed.endsWith(":")) {
+      stack.push({ indent, node });
+    }
+  });
+
+  return [root];
+}
+
+// One node per line, nested by braces: a line ending in `{` (or a lone `{` after a header) opens a block.
+function buildBracedOutline(code: string, config: LanguageConfig): ASTNode[] {
+  const root: ASTNode = { type: "Module", children: [] };
+  const stack: ASTNode[] = [root];
+  let inBlockComment = false;
+
+  code.replace(/\r\n?/g, "\n").split("\n").forEach((rawLine) => {
+    let line = rawLine.trim();
+    if (inBlockComment) {
+      const closeAt = config.blockComment ? line.indexOf(config.blockComment[1]) : -1;
+      if (closeAt === -1) return;
+      inBlockComment = false;
+      line = line.slice(closeAt + (config.blockComment?.[1].length ?? 0)).trim();
+    }
+    if (config.blockComment && line.startsWith(config.blockComment[0])) {
+      inBlockComment = !line.includes(config.blockComment[1], config.blockComment[0].length);
+      return;
+    }
+    if (line.startsWith(config.lineComment)) return;
+
+    while (line.startsWith("}")) {
+      if (stack.length > 1) stack.pop();
+      line = line.slice(1).trim();
+    }
+    line = line.replace(/^[;)]+/, "").trim();
+    if (!line) return;
+
+    const parent = stack[stack.length - 1];
+    if (line === "{") {
+      const last = parent.children?.[parent.children.length - 1];
+      if (last) stack.push(last);
+      return;
+    }
+    const node = outlineBracedNode(line);
+    parent.children = [...(parent.children ?? []), node];
+    const opens = (line.match(/\{/g) ?? []).length;
+    const closes = (line.match(/\}/g) ?? []).length;
+    if (line.endsWith("{") || opens > closes) {
+      stack.push(node);
+    }
+  });
+
+  return [root];
+}
+
+function outlineBracedNode(line: string): ASTNode {
+  const [head] = line.split(/[\s({:<;]/);
+  const snippet = line.length > 40 ? `${line.slice(0, 40)}…` : line;
+  switch (head) {
+    case "if":
+      return { type: "If", value: snippet };
+    case "else":
+      return /^else\s+if\b/.test(line) ? { type: "If", value: snippet } : { type: "Else" };
+    case "for":
+      return { type: "For", value: snippet };
+    case "while":
+    case "do":
+      return { type: "While", value: snippet };
+    case "switch":
+      return { type: "Switch", value: snippet };
+    case "case":
+    case "default":
+      return { type: "Case", value: snippet };
+    case "return":
+      return { type: "Return", value: snippet };
+    case "import":
+    case "package":
+    case "using":
+    case "#include":
+      return { type: "Import", value: snippet };
+    case "try":
+      return { type: "Try" };
+    case "catch":
+      return { type: "ExceptHandler", value: snippet };
+    case "finally":
+      return { type: "Finally" };
+  }
+
+  const declaration = /\b(class|interface|struct|enum|record|namespace)\s+([A-Za-z_$][\w$]*)/.exec(line);
+  if (declaration && !/[=(]/.test(line.slice(0, declaration.index))) {
+    return { type: "ClassDef", value: declaration[2] };
+  }
+  const named = /\bfunction\s*\*?\s*([A-Za-z_$][\w$]*)/.exec(line);
+  if (named) {
+    return { type: "FunctionDef", value: named[1] };
+  }
+  const arrow = /^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s*)?(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*=>/.exec(line);
+  if (arrow) {
+    return { type: "FunctionDef", value: arrow[1] };
+  }
+  // `type name(params) {` with no `=` before the parameter list
+  const method = /^([\w$:<>,*&\[\]\s~]*?)([A-Za-z_$~][\w$]*)\s*\([^;]*\)\s*(?:const\s*|override\s*|noexcept\s*|final\s*|throws\s+[\w.,\s]+)*\{?$/.exec(line);
+  if (method && !/^(new|return|else)\b/.test(line) && !method[1].includes("=")) {
+    return { type: "FunctionDef", value: method[2] };
+  }
+  return { type: /[^=!<>]=[^=>]/.test(line) ? "Assign" : "Expr", value: snippet };
+}
+
+function outlineNode(line: string): ASTNode {
+  const [head] = line.split(/[\s(:]/);
+  const snippet = line.length > 40 ? `${line.slice(0, 40)}…` : line;
+  switch (head) {
+    case "def":
+    case "async":
+      return { type: "FunctionDef", value: /def\s+([A-Za-z_]\w*)/.exec(line)?.[1] ?? snippet };
+    case "class":
+      return { type: "ClassDef", value: /class\s+([A-Za-z_]\w*)/.exec(line)?.[1] ?? snippet };
+    case "if":
+    case "elif":
+      return { type: "If", value: snippet };
+    case "else":
+      return { type: "Else" };
+    case "for":
+      return { type: "For", value: snippet };
+    case "while":
+      return { type: "While", value: snippet };
+    case "return":
+      return { type: "Return", value: snippet };
+    case "import":
+    case "from":
+      return { type: "Import", value: snippet };
+    case "try":
+      return { type: "Try" };
+    case "except":
+      return { type: "ExceptHandler", value: snippet };
+    case "with":
+      return { type: "With", value: snippet };
+    default:
+      return { type: /[^=!<>]=[^=]/.test(line) ? "Assign" : "Expr", value: snippet };
+  }
+}
+
+function joinTokens(parts: string[]) {
+  return parts.reduce((line, part, index) => {
+    if (index === 0) return part;
+    const previous = parts[index - 1];
+    const tight =
+      [")", "]", ",", ":", ";", ".", "("].includes(part) && !(part === "(" && /^(and|or|not|in|is|return)$/.test(previous)) ||
+      ["(", "[", "."].includes(previous);
+    return tight ? `${line}${part}` : `${line} ${part}`;
+  }, "");
+}
+
+function findClosingQuote(line: string, from: number, quote: string) {
+  for (let index = from; index < line.length; index += 1) {
+    if (line[index] === "\\") {
+      index += 1;
+      continue;
+    }
+    if (line.startsWith(quote, index)) return index;
+  }
+  return -1;
+}
+
+function measureIndent(line: string) {
+  let width = 0;
+  for (const char of line) {
+    if (char === " ") width += 1;
+    else if (char === "\t") width += 4;
+    else break;
+  }
+  return width;
+}
+
+function hashString(value: string) {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function round(value: number, digits: number) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,255 @@
+import { fingerprint, isSignificantToken, tokenize, type CodeToken, type Fingerprint } from "@/lib/localSimilarity";
+
+export type LineRange = {
+  startLine: number;
+  endLine: number;
+};
+
+/**
+ * 1: identical tokens, 2: identical after normalizing identifiers and literals (renames),
+ * 3: similar but with tokens added, removed or changed.
+ */
+export type CloneType = 1 | 2 | 3;
+
+export type MatchedRegion = {
+  id: string;
+  tone: number;
+  color: string;
+  reference: LineRange;
+  submission: LineRange;
+  /** Similarity of the raw token text inside the two ranges, as a fraction. */
+  similarity: number;
+  cloneType: CloneType;
+};
+
+export type MatchOptions = {
+  k?: number;
+  window?: number;
+  minTokens?: number;
+  language?: string;
+};
+
+export const MATCH_COLORS = [
+  "rgba(56,189,248,0.6)",
+  "rgba(232,121,249,0.6)",
+  "rgba(251,191,36,0.6)",
+  "rgba(52,211,153,0.6)",
+  "rgba(251,113,133,0.6)",
+  "rgba(167,139,250,0.6)",
+  "rgba(163,230,53,0.6)",
+  "rgba(45,212,191,0.6)",
+];
+
+const MAX_OFFSET_DRIFT = 4;
+
+type Chain = {
+  refStart: number;
+  refEnd: number;
+  subStart: number;
+  subEnd: number;
+  offset: number;
+  hits: number;
+};
+
+export function findMatchedRegions(reference: string, submission: string, options: MatchOptions = {}): MatchedRegion[] {
+  const k = options.k ?? 5;
+  const windowSize = options.window ?? 4;
+  const minTokens = options.minTokens ?? k + windowSize - 1;
+  const referenceTokens = tokenize(reference, options.language).filter(isSignificantToken);
+  const submissionTokens = tokenize(submission, options.language).filter(isSignificantToken);
+  if (!referenceTokens.length || !submissionTokens.length) return [];
+
+  const referencePrints = fingerprint(referenceTokens, { k, window: windowSize });
+  const submissionPrints = fingerprint(submissionTokens, { k, window: windowSize });
+  const chains = chainMatches(referencePrints, indexByHash(submissionPrints), k + windowSize);
+
+  const accepted: Chain[] = [];
+  chains
+    .filter((chain) => chain.refEnd - chain.refStart + 1 >= minTokens && chain.subEnd - chain.subStart + 1 >= minTokens)
+    .sort((a, b) => b.refEnd - b.refStart - (a.refEnd - a.refStart))
+    .forEach((chain) => {
+      const overlaps = accepted.some(
+        (other) =>
+          rangesOverlap(chain.refStart, chain.refEnd, other.refStart, other.refEnd) ||
+          rangesOverlap(chain.subStart, chain.subEnd, other.subStart, other.subEnd),
+      );
+      if (!overlaps) accepted.push(chain);
+    });
+
+  return accepted
+    .sort((a, b) => a.refStart - b.refStart)
+    .map((chain, index) => {
+      const referenceSlice = referenceTokens.slice(chain.refStart, chain.refEnd + 1);
+      const submissionSlice = submissionTokens.slice(chain.subStart, chain.subEnd + 1);
+      return {
+        id: `M${index + 1}`,
+        tone: index % MATCH_COLORS.length,
+        color: MATCH_COLORS[index % MATCH_COLORS.length],
+        reference: toLineRange(referenceTokens, chain.refStart, chain.refEnd),
+        submission: toLineRange(submissionTokens, chain.subStart, chain.subEnd),
+        similarity: sequenceSimilarity(
+          referenceSlice.map((token) => token.text),
+          submissionSlice.map((token) => token.text),
+        ),
+        cloneType: cloneType(referenceSlice, submissionSlice),
+      };
+    });
+}
+
+/** e.g. "ref 3–5 ↔ sub 7–9, 92%, clone type 2" */
+export function describeMatch(match: MatchedRegion) {
+  const range = (lines: LineRange) =>
+    lines.startLine === lines.endLine ? `${lines.startLine}` : `${lines.startLine}–${lines.endLine}`;
+  return `ref ${range(match.reference)} ↔ sub ${range(match.submission)}, ${Math.round(match.similarity * 100)}%, clone type ${match.cloneType}`;
+}
+
+export function regionHighlights(matches: MatchedRegion[], side: "reference" | "submission") {
+  return matches.map((match) => ({
+    id: match.id,
+    startLine: match[side].startLine,
+    endLine: match[side].endLine,
+    color: match.color,
+    tone: match.tone,
+    hoverMessage: `${match.id}: ${describeMatch(match)}`,
+  }));
+}
+
+/**
+ * Maps a fractional line on one side to the other, interpolating linearly between matched regions
+ * so a copied block lines up with its counterpart even when the line offsets differ. Lines outside
+ * every match are spread over the gap between the surrounding matches.
+ */
+export function counterpartLine(
+  line: number,
+  matches: MatchedRegion[],
+  from: "reference" | "submission",
+  lineCounts: { reference: number; submission: number },
+) {
+  const to = from === "reference" ? "submission" : "reference";
+  const anchors: { from: number; to: number }[] = [{ from: 1, to: 1 }];
+  [...matches]
+    .sort((a, b) => a[from].startLine - b[from].startLine)
+    .forEach((match) => {
+      const last = anchors[anchors.length - 1];
+      // overlapping or crossing matches would make the mapping jump back and forth
+      if (match[from].startLine < last.from || match[to].startLine < last.to) return;
+      anchors.push({ from: match[from].startLine, to: match[to].startLine });
+      anchors.push({ from: match[from].endLine + 1, to: match[to].endLine + 1 });
+    });
+  const end = { from: lineCounts[from] + 1, to: lineCounts[to] + 1 };
+  if (end.from > anchors[anchors.length - 1].from) anchors.push(end);
+
+  const index = anchors.findIndex((anchor, position) => position === anchors.length - 1 || line < anchors[position + 1].from);
+  const start = anchors[index];
+  const next = anchors[index + 1];
+  if (!next) return Math.max(1, start.to + (line - start.from));
+  const ratio = (line - start.from) / (next.from - start.from);
+  return Math.max(1, start.to + ratio * (next.to - start.to));
+}
+
+function chainMatches(referencePrints: Fingerprint[], submissionIndex: Map<number, Fingerprint[]>, maxGap: number): Chain[] {
+  const chains: Chain[] = [];
+  const open: Chain[] = [];
+
+  referencePrints.forEach((print) => {
+    const candidates = submissionIndex.get(print.hash);
+    if (!candidates) return;
+    candidates.forEach((candidate) => {
+      const offset = candidate.start - print.start;
+      const chain = open.find(
+        (entry) =>
+          print.start - entry.refEnd <= maxGap &&
+          Math.abs(offset - entry.offset) <= MAX_OFFSET_DRIFT &&
+          candidate.start >= entry.subStart,
+      );
+      if (chain) {
+        chain.refEnd = Math.max(chain.refEnd, print.end);
+        chain.subStart = Math.min(chain.subStart, candidate.start);
+        chain.subEnd = Math.max(chain.subEnd, candidate.end);
+        chain.offset = offset;
+        chain.hits += 1;
+        return;
+      }
+      const created: Chain = {
+        refStart: print.start,
+        refEnd: print.end,
+        subStart: candidate.start,
+        subEnd: candidate.end,
+        offset,
+        hits: 1,
+      };
+      open.push(created);
+      chains.push(created);
+    });
+
+    for (let index = open.length - 1; index >= 0; index -= 1) {
+      if (print.start - open[index].refEnd > maxGap) open.splice(index, 1);
+    }
+  });
+
+  return chains;
+}
+
+function indexByHash(prints: Fingerprint[]) {
+  const index = new Map<number, Fingerprint[]>();
+  prints.forEach((print) => {
+    const bucket = index.get(print.hash);
+    if (bucket) bucket.push(print);
+    else index.set(print.hash, [print]);
+  });
+  return index;
+}
+
+function cloneType(reference: CodeToken[], submission: CodeToken[]): CloneType {
+  if (reference.length !== submission.length) return 3;
+  if (reference.every((token, index) => token.text === submission[index].text)) return 1;
+  if (reference.every((token, index) => token.normalized === submission[index].normalized)) return 2;
+  return 3;
+}
+
+// Beyond this many DP cells the LCS is replaced by a bigram Dice coefficient.
+const MAX_LCS_CELLS = 1_000_000;
+
+function sequenceSimilarity(reference: string[], submission: string[]) {
+  if (!reference.length && !submission.length) return 1;
+  if (reference.length * submission.length > MAX_LCS_CELLS) return bigramDice(reference, submission);
+  let previous = new Array<number>(submission.length + 1).fill(0);
+  reference.forEach((left) => {
+    const current = [0];
+    submission.forEach((right, index) => {
+      current.push(left === right ? previous[index] + 1 : Math.max(previous[index + 1], current[index]));
+    });
+    previous = current;
+  });
+  return (2 * previous[submission.length]) / (reference.length + submission.length);
+}
+
+function bigramDice(reference: string[], submission: string[]) {
+  const counts = new Map<string, number>();
+  for (let index = 1; index < reference.length; index += 1) {
+    const gram = `${reference[index - 1]}\u0000${reference[index]}`;
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  let shared = 0;
+  for (let index = 1; index < submission.length; index += 1) {
+    const gram = `${submission[index - 1]}\u0000${submission[index]}`;
+    const available = counts.get(gram) ?? 0;
+    if (available > 0) {
+      shared += 1;
+      counts.set(gram, available - 1);
+    }
+  }
+  const total = reference.length + submission.length - 2;
+  return total > 0 ? (2 * shared) / total : 0;
+}
+
+function toLineRange(tokens: CodeToken[], start: number, end: number): LineRange {
+  return {
+    startLine: tokens[start].line,
+    endLine: tokens[Math.min(end, tokens.length - 1)].line,
+  };
+}
+
+function rangesOverlap(startA: number, endA: number, startB: number, endB: number) {
+  return startA <= endB && startB <= endA;
+}
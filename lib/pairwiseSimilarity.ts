@@ -0,0 +1,27 @@
+import type { BulkPairResult, BulkSubmissionInput } from "@/lib/apiPlaceholders";
+import { buildProfile, compareProfiles, riskLevelFor, tokenize } from "@/lib/localSimilarity";
+
+export function rankSubmissionPairs(submissions: BulkSubmissionInput[], language?: string): BulkPairResult[] {
+  const profiles = submissions.map((submission) => ({
+    id: submission.id,
+    profile: buildProfile(tokenize(submission.code, language)),
+  }));
+  const pairs: BulkPairResult[] = [];
+
+  for (let left = 0; left < profiles.length; left += 1) {
+    for (let right = left + 1; right < profiles.length; right += 1) {
+      const scores = compareProfiles(profiles[left].profile, profiles[right].profile);
+      pairs.push({
+        left_id: profiles[left].id,
+        right_id: profiles[right].id,
+        plagiarism_score: scores.plagiarismScore,
+        risk_level: riskLevelFor(scores.plagiarismScore),
+        semantic_similarity: scores.semanticSimilarity,
+        ast_similarity: scores.structuralSimilarity,
+        token_similarity: scores.tokenSimilarity,
+      });
+    }
+  }
+
+  return pairs.sort((a, b) => b.plagiarism_score - a.plagiarism_score);
+}
@@ -0,0 +1,121 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from "fflate";
+import type { CompareCodesResponse } from "@/lib/apiPlaceholders";
+import { DEFAULT_LANGUAGE, resolveLanguageId, type LanguageId } from "@/lib/languages";
+import { validateCompareResponse } from "@/lib/responseValidation";
+
+export type SharedComparison = {
+  language: LanguageId;
+  reference: string;
+  submission: string;
+  /** Analyzer response cached in the link so the recipient sees the same verdict without a rerun. */
+  result?: CompareCodesResponse;
+};
+
+export type PermalinkBuild =
+  | { ok: true; url: string; includesResult: boolean; warning?: string }
+  | { ok: false; message: string };
+
+export type PermalinkParse = { ok: true; value: SharedComparison } | { ok: false; message: string };
+
+const FRAGMENT_KEY = "share";
+const FRAGMENT_VERSION = "v1";
+// Links longer than this get cut by some chat apps and mail clients.
+export const PERMALINK_WARN_CHARS = 2_000;
+// Past this the link is refused; the session file is the way to share large cases.
+export const PERMALINK_MAX_CHARS = 32_000;
+// Bounds what a crafted link can make the browser inflate.
+const MAX_DECODED_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Packs a comparison into `#share=v1.<base64url(deflate(json))>` on top of `baseUrl`. The cached
+ * result is the first thing dropped when the link gets too long.
+ */
+export function buildPermalink(baseUrl: string, comparison: SharedComparison): PermalinkBuild {
+  const base = baseUrl.split("#")[0];
+  const withResult = comparison.result ? `${base}#${encodeFragment(comparison)}` : null;
+  if (withResult && withResult.length <= PERMALINK_MAX_CHARS) {
+    return finish(withResult, true);
+  }
+  const inputsOnly = { language: comparison.language, reference: comparison.reference, submission: comparison.submission };
+  const url = `${base}#${encodeFragment(inputsOnly)}`;
+  if (url.length > PERMALINK_MAX_CHARS) {
+    return {
+      ok: false,
+      message: `A link for this comparison would be ${formatCount(url.length)} characters long (limit ${formatCount(PERMALINK_MAX_CHARS)}). Use "Save session" to share it as a file instead.`,
+    };
+  }
+  return finish(url, false, withResult ? "The cached result was left out to keep the link short; it will be re-analyzed when opened." : undefined);
+}
+
+/** Reads a shared comparison from `location.hash`; returns null when the fragment is not a permalink. */
+export function parsePermalink(hash: string): PermalinkParse | null {
+  const match = new RegExp(`^#?${FRAGMENT_KEY}=([^.]+)\\.([A-Za-z0-9_-]+)$`).exec(hash);
+  if (!match) return null;
+  if (match[1] !== FRAGMENT_VERSION) {
+    return { ok: false, message: `This link was made by a newer version of Plagify (${match[1]}).` };
+  }
+  if (match[2].length > PERMALINK_MAX_CHARS) {
+    return { ok: false, message: "This link is too large to open." };
+  }
+
+  let input: unknown;
+  try {
+    const inflated = inflateSync(fromBase64Url(match[2]), { out: new Uint8Array(MAX_DECODED_BYTES + 1) });
+    if (inflated.length > MAX_DECODED_BYTES) {
+      return { ok: false, message: "This link expands to more code than the checker accepts from a URL." };
+    }
+    input = JSON.parse(strFromU8(inflated));
+  } catch {
+    return { ok: false, message: "This link is damaged or incomplete." };
+  }
+
+  if (typeof input !== "object" || input === null) {
+    return { ok: false, message: "This link is damaged or incomplete." };
+  }
+  const record = input as Record<string, unknown>;
+  if (typeof record.reference !== "string" || typeof record.submission !== "string") {
+    return { ok: false, message: "This link does not contain a comparison." };
+  }
+  const validated = record.result === undefined ? null : validateCompareResponse(record.result);
+  return {
+    ok: true,
+    value: {
+      language: (typeof record.language === "string" && resolveLanguageId(record.language)) || DEFAULT_LANGUAGE,
+      reference: record.reference,
+      submission: record.submission,
+      // a bad cached result is not fatal: the recipient can still re-run the analysis
+      result: validated?.ok ? validated.value : undefined,
+    },
+  };
+}
+
+function finish(url: string, includesResult: boolean, warning?: string): PermalinkBuild {
+  const lengthWarning =
+    url.length > PERMALINK_WARN_CHARS
+      ? `The link is ${formatCount(url.length)} characters long; some chat apps and mail clients cut links past ${formatCount(PERMALINK_WARN_CHARS)}.`
+      : undefined;
+  const combined = [warning, lengthWarning].filter(Boolean).join(" ");
+  return { ok: true, url, includesResult, warning: combined || undefined };
+}
+
+function encodeFragment(comparison: SharedComparison) {
+  const packed = deflateSync(strToU8(JSON.stringify(comparison)), { level: 9 });
+  return `${FRAGMENT_KEY}=${FRAGMENT_VERSION}.${toBase64Url(packed)}`;
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function formatCount(count: number) {
+  return count.toLocaleString("en-US");
+}
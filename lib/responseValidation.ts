@@ -0,0 +1,261 @@
+import type {
+  BulkCompareResponse,
+  BulkCompareResult,
+  CodeMetrics,
+  CompareCodesResponse,
+} from "@/lib/apiPlaceholders";
+import { coerceAst } from "@/lib/ast";
+import { riskLevelFor } from "@/lib/localSimilarity";
+
+// Analyzer payloads are validated once at the API route boundary. Every score that leaves
+// these validators is a fraction in [0, 1]; upstream percentages are scaled down. The scale is
+// decided once per response and group of scores (see `readScoreScale`), never per value.
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: string[] };
+
+export type ScoreScale = "fraction" | "percent";
+
+/** What the backend is known to send, used when a response does not say itself. */
+export type ValidationOptions = {
+  scoreScale?: ScoreScale;
+  qualityScale?: ScoreScale;
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+// Quality is a separate group: analyzers commonly report it out of 100 next to 0–1 similarities.
+const SIMILARITY_KEYS = ["plagiarism_score", "semantic_similarity", "ast_similarity", "token_similarity"];
+
+export function validateCompareResponse(
+  input: unknown,
+  options: ValidationOptions = {},
+): ValidationResult<CompareCodesResponse> {
+  const issues: string[] = [];
+  if (!isRecord(input)) {
+    return { ok: false, issues: ["response is not a JSON object"] };
+  }
+  if (input.ok === false) {
+    return { ok: false, issues: [`analyzer reported failure: ${readString(input, "message") ?? "no message"}`] };
+  }
+
+  const scale = readScoreScale(input, "score_scale", options.scoreScale, [input], SIMILARITY_KEYS, issues);
+  const qualityScale = readScoreScale(input, "quality_scale", options.qualityScale, [input], ["submission_quality_score"], issues);
+  const plagiarism = readScore(input, "plagiarism_score", scale, issues);
+  const semantic = readScore(input, "semantic_similarity", scale, issues);
+  const ast = readScore(input, "ast_similarity", scale, issues);
+  const token = readScore(input, "token_similarity", scale, issues);
+  const quality = readScore(input, "submission_quality_score", qualityScale, issues, { optional: true });
+  if (issues.length || plagiarism === undefined || semantic === undefined || ast === undefined || token === undefined) {
+    return { ok: false, issues };
+  }
+
+  const engine = input.engine === "local" || input.engine === "remote" ? input.engine : undefined;
+  const normalized = isRecord(input.normalized) ? input.normalized : undefined;
+
+  return {
+    ok: true,
+    value: {
+      ok: true,
+      engine,
+      fallback_reason: readString(input, "fallback_reason"),
+      plagiarism_score: plagiarism,
+      risk_level: readRiskLevel(input, plagiarism),
+      semantic_similarity: semantic,
+      ast_similarity: ast,
+      token_similarity: token,
+      explanation: readString(input, "explanation"),
+      submission_quality_score: quality,
+      submission_quality_label: readString(input, "submission_quality_label"),
+      submission_quality_explanation: readString(input, "submission_quality_explanation"),
+      reference: readCodeSide(input.reference),
+      submission: readCodeSide(input.submission),
+      normalized: normalized
+        ? {
+            reference_code: readString(normalized, "reference_code"),
+            submission_code: readString(normalized, "submission_code"),
+          }
+        : undefined,
+    },
+  };
+}
+
+export function validateBulkCompareResponse(
+  input: unknown,
+  options: ValidationOptions = {},
+): ValidationResult<BulkCompareResponse> {
+  if (!isRecord(input)) {
+    return { ok: false, issues: ["response is not a JSON object"] };
+  }
+  if (input.ok === false) {
+    return { ok: false, issues: [`analyzer reported failure: ${readString(input, "message") ?? "no message"}`] };
+  }
+  if (!Array.isArray(input.results)) {
+    return { ok: false, issues: ["results must be an array"] };
+  }
+  const entries: unknown[] = input.results;
+  const issues: string[] = [];
+  const records = entries.filter(isRecord);
+  const scales = {
+    score: readScoreScale(input, "score_scale", options.scoreScale, records, SIMILARITY_KEYS, issues),
+    quality: readScoreScale(input, "quality_scale", options.qualityScale, records, ["quality_score"], issues),
+  };
+  if (issues.length) {
+    return { ok: false, issues };
+  }
+
+  return {
+    ok: true,
+    value: {
+      ok: true,
+      results: entries.map((entry, index) => validateBulkResult(entry, index, scales)),
+    },
+  };
+}
+
+export function describeIssues(issues: string[]) {
+  return `Malformed analyzer response: ${issues.join("; ")}`;
+}
+
+function validateBulkResult(
+  entry: unknown,
+  index: number,
+  scales: { score: ScoreScale; quality: ScoreScale },
+): BulkCompareResult {
+  const fallbackId = `submission-${index + 1}`;
+  if (!isRecord(entry)) {
+    return failedBulkResult(fallbackId, "result entry is not an object");
+  }
+  const id = readString(entry, "id") ?? fallbackId;
+  const reportedError = readString(entry, "error");
+  if (entry.ok === false || reportedError) {
+    return failedBulkResult(id, reportedError ?? readString(entry, "message") ?? "analyzer could not score this submission");
+  }
+
+  const issues: string[] = [];
+  const plagiarism = readScore(entry, "plagiarism_score", scales.score, issues);
+  const semantic = readScore(entry, "semantic_similarity", scales.score, issues);
+  const ast = readScore(entry, "ast_similarity", scales.score, issues);
+  const token = readScore(entry, "token_similarity", scales.score, issues);
+  const quality = readScore(entry, "quality_score", scales.quality, issues, { optional: true });
+  if (issues.length || plagiarism === undefined || semantic === undefined || ast === undefined || token === undefined) {
+    return failedBulkResult(id, describeIssues(issues));
+  }
+
+  return {
+    id,
+    ok: true,
+    plagiarism_score: plagiarism,
+    risk_level: readRiskLevel(entry, plagiarism),
+    semantic_similarity: semantic,
+    ast_similarity: ast,
+    token_similarity: token,
+    explanation: readString(entry, "explanation") ?? "",
+    quality_score: quality,
+    quality_label: readString(entry, "quality_label"),
+    quality_explanation: readString(entry, "quality_explanation"),
+    submission_ast: coerceAst(entry.submission_ast),
+    reference_ast: coerceAst(entry.reference_ast),
+    normalized_code: readString(entry, "normalized_code"),
+    normalized_reference_code: readString(entry, "normalized_reference_code"),
+    metrics: readMetrics(entry.metrics),
+    error: null,
+  };
+}
+
+export function failedBulkResult(id: string, error: string): BulkCompareResult {
+  return {
+    id,
+    ok: false,
+    plagiarism_score: 0,
+    risk_level: "pending",
+    semantic_similarity: 0,
+    ast_similarity: 0,
+    token_similarity: 0,
+    explanation: `Analysis failed: ${error}`,
+    error,
+  };
+}
+
+/**
+ * The scale the response declares in `field` wins, then the one configured for the backend. Only
+ * without either is it inferred, and only a score above 1 counts as evidence for percentages:
+ * scores that all fit in [0, 1] are read as fractions, the documented default.
+ */
+function readScoreScale(
+  response: UnknownRecord,
+  field: string,
+  configured: ScoreScale | undefined,
+  records: UnknownRecord[],
+  keys: readonly string[],
+  issues: string[],
+): ScoreScale {
+  const declared = response[field];
+  if (declared === "fraction" || declared === "percent") return declared;
+  if (declared !== undefined && declared !== null) {
+    issues.push(`${field} must be "fraction" or "percent" (got ${JSON.stringify(declared)})`);
+  }
+  if (configured) return configured;
+  return records.some((record) => keys.some((key) => numericValue(record[key]) > 1)) ? "percent" : "fraction";
+}
+
+function readScore(
+  record: UnknownRecord,
+  key: string,
+  scale: ScoreScale,
+  issues: string[],
+  options: { optional?: boolean } = {},
+) {
+  const raw = record[key];
+  if (raw === undefined || raw === null || raw === "") {
+    if (!options.optional) issues.push(`${key} is missing`);
+    return undefined;
+  }
+  const numeric = numericValue(raw);
+  if (!Number.isFinite(numeric)) {
+    issues.push(`${key} is not a number`);
+    return undefined;
+  }
+  const max = scale === "percent" ? 100 : 1;
+  if (numeric < 0 || numeric > max) {
+    issues.push(`${key} is out of range for ${scale} scores (${numeric})`);
+    return undefined;
+  }
+  const fraction = scale === "percent" ? numeric / 100 : numeric;
+  return Math.round(fraction * 10000) / 10000;
+}
+
+function numericValue(raw: unknown) {
+  return typeof raw === "number" ? raw : typeof raw === "string" && raw !== "" ? Number(raw) : Number.NaN;
+}
+
+function readRiskLevel(record: UnknownRecord, plagiarism: number) {
+  const raw = readString(record, "risk_level")?.trim().toLowerCase();
+  return raw || riskLevelFor(plagiarism);
+}
+
+function readCodeSide(input: unknown): CompareCodesResponse["reference"] {
+  if (!isRecord(input)) return {};
+  return {
+    metrics: readMetrics(input.metrics),
+    ast: coerceAst(input.ast),
+  };
+}
+
+function readMetrics(input: unknown): CodeMetrics | undefined {
+  if (!isRecord(input)) return undefined;
+  const metrics: CodeMetrics = {};
+  Object.entries(input).forEach(([key, value]) => {
+    const numeric = typeof value === "number" ? value : typeof value === "string" ? Number(value) : Number.NaN;
+    if (Number.isFinite(numeric)) metrics[key] = numeric;
+  });
+  return Object.keys(metrics).length ? metrics : undefined;
+}
+
+function readString(record: UnknownRecord, key: string) {
+  const value = record[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
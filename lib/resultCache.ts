@@ -0,0 +1,135 @@
+import { createHash } from "node:crypto";
+import type { AnalyzerBackendConfig } from "@/lib/analyzerBackends";
+
+// Server-side only: in-memory, content-addressed cache shared by the API routes of one server instance.
+
+export type ResultCacheOptions = {
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes: number;
+};
+
+export type CacheHit<T> = {
+  value: T;
+  ttlRemainingMs: number;
+};
+
+export type ResultCache<T> = {
+  get: (key: string) => CacheHit<T> | undefined;
+  set: (key: string, value: T) => boolean;
+  clear: () => void;
+  size: () => { entries: number; bytes: number };
+};
+
+export type CacheOutcome =
+  | { kind: "hit"; ttlRemainingMs: number }
+  | { kind: "miss"; stored: boolean }
+  | { kind: "partial"; hits: number; total: number; stored: boolean }
+  | { kind: "bypass"; stored: boolean };
+
+type CacheEntry<T> = {
+  value: T;
+  bytes: number;
+  expiresAt: number;
+};
+
+const CACHE_NAME = "plagify";
+const DEFAULT_TTL_MS = 15 * 60_000;
+const DEFAULT_MAX_ENTRIES = 2_000;
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+
+export function createResultCache<T>(options: ResultCacheOptions): ResultCache<T> {
+  // Map iteration order doubles as recency order: reads re-insert, evictions take the first key.
+  const entries = new Map<string, CacheEntry<T>>();
+  let totalBytes = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    totalBytes -= entry.bytes;
+  };
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      const ttlRemainingMs = entry.expiresAt - Date.now();
+      if (ttlRemainingMs <= 0) {
+        remove(key);
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return { value: entry.value, ttlRemainingMs };
+    },
+    set: (key, value) => {
+      if (options.ttlMs <= 0 || options.maxEntries <= 0) return false;
+      const bytes = JSON.stringify(value).length * 2;
+      // a single entry may not take more than a quarter of the budget
+      if (bytes > options.maxBytes / 4) return false;
+      remove(key);
+      entries.set(key, { value, bytes, expiresAt: Date.now() + options.ttlMs });
+      totalBytes += bytes;
+      while (entries.size > options.maxEntries || totalBytes > options.maxBytes) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        remove(oldest);
+      }
+      return true;
+    },
+    clear: () => {
+      entries.clear();
+      totalBytes = 0;
+    },
+    size: () => ({ entries: entries.size, bytes: totalBytes }),
+  };
+}
+
+export function resultCacheOptionsFromEnv(): ResultCacheOptions {
+  return {
+    ttlMs: readNonNegativeInt("RESULT_CACHE_TTL_MS") ?? DEFAULT_TTL_MS,
+    maxEntries: readNonNegativeInt("RESULT_CACHE_MAX_ENTRIES") ?? DEFAULT_MAX_ENTRIES,
+    maxBytes: readNonNegativeInt("RESULT_CACHE_MAX_BYTES") ?? DEFAULT_MAX_BYTES,
+  };
+}
+
+export function contentKey(...parts: string[]) {
+  const hash = createHash("sha256");
+  parts.forEach((part) => {
+    // length-prefix every part so ("ab", "c") and ("a", "bc") never collide
+    hash.update(`${part.length}:`);
+    hash.update(part);
+  });
+  return hash.digest("hex");
+}
+
+export function analysisKey(backend: AnalyzerBackendConfig, language: string, reference: string, submission: string) {
+  return contentKey(backend.name, backend.baseUrl, backend.version, language, reference, submission);
+}
+
+export function bypassesCache(request: Request) {
+  const directives = `${request.headers.get("cache-control") ?? ""},${request.headers.get("pragma") ?? ""}`;
+  return /\bno-(cache|store)\b/i.test(directives);
+}
+
+// RFC 9211 Cache-Status value, e.g. `plagify; hit; ttl=840` or `plagify; fwd=miss; stored`.
+export function cacheStatusHeader(outcome: CacheOutcome) {
+  switch (outcome.kind) {
+    case "hit":
+      return `${CACHE_NAME}; hit; ttl=${Math.max(0, Math.floor(outcome.ttlRemainingMs / 1000))}`;
+    case "bypass":
+      return `${CACHE_NAME}; fwd=bypass${outcome.stored ? "; stored" : ""}`;
+    case "miss":
+      return `${CACHE_NAME}; fwd=miss${outcome.stored ? "; stored" : ""}`;
+    case "partial":
+      return `${CACHE_NAME}; fwd=miss${outcome.stored ? "; stored" : ""}; detail="${outcome.hits}/${outcome.total} hit"`;
+  }
+}
+
+function readNonNegativeInt(key: string) {
+  const raw = process.env[key]?.trim();
+  if (!raw) return undefined;
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
@@ -0,0 +1,189 @@
+import type {
+  BulkCompareResponse,
+  BulkPairResult,
+  BulkSubmissionInput,
+  CompareCodesResponse,
+} from "@/lib/apiPlaceholders";
+import { DEFAULT_LANGUAGE, resolveLanguageId, type LanguageId } from "@/lib/languages";
+import { validateBulkCompareResponse, validateCompareResponse } from "@/lib/responseValidation";
+
+export const SESSION_FORMAT = "plagify-session";
+export const SESSION_VERSION = 1;
+
+export type SessionViewState = {
+  activeTab?: string;
+  bulkSortBy?: string;
+  bulkView?: string;
+  selectedBulkId?: string | null;
+  selectedPairKey?: string | null;
+  selectedFilename?: string | null;
+};
+
+// Results are stored as the analyzer responses (not the UI view models) so an import goes through
+// the same validation as a live response and survives UI refactors.
+export type AnalysisSession = {
+  format: typeof SESSION_FORMAT;
+  version: typeof SESSION_VERSION;
+  savedAt: string;
+  mode: "single" | "bulk";
+  language: LanguageId;
+  editors: { reference: string; submission: string };
+  uploadedFiles: Record<string, string>;
+  single?: {
+    inputs: { language: LanguageId; reference: string; submission: string };
+    response: CompareCodesResponse;
+  };
+  bulk?: {
+    language: LanguageId;
+    reference: string;
+    submissions: BulkSubmissionInput[];
+    response: BulkCompareResponse;
+  };
+  view: SessionViewState;
+};
+
+export type SessionParseResult = { ok: true; value: AnalysisSession } | { ok: false; message: string };
+
+export type SessionContent = Omit<AnalysisSession, "format" | "version" | "savedAt">;
+
+export function createSession(content: SessionContent, savedAt = new Date()): AnalysisSession {
+  return { format: SESSION_FORMAT, version: SESSION_VERSION, savedAt: savedAt.toISOString(), ...content };
+}
+
+export function serializeSession(content: SessionContent, savedAt = new Date()) {
+  return JSON.stringify(createSession(content, savedAt), null, 2);
+}
+
+export function parseSession(text: string): SessionParseResult {
+  let input: unknown;
+  try {
+    input = JSON.parse(text);
+  } catch {
+    return { ok: false, message: "The session file is not valid JSON." };
+  }
+  return readSession(input);
+}
+
+/** Validates a session object from any source (file, IndexedDB, permalink). */
+export function readSession(input: unknown): SessionParseResult {
+  if (!isRecord(input) || input.format !== SESSION_FORMAT) {
+    return { ok: false, message: "This file is not a Plagify session." };
+  }
+  if (typeof input.version !== "number" || input.version > SESSION_VERSION) {
+    return { ok: false, message: `Session version ${String(input.version)} is newer than this app supports (${SESSION_VERSION}).` };
+  }
+
+  const language = readLanguage(input.language);
+  const editors = isRecord(input.editors) ? input.editors : {};
+  const session: AnalysisSession = {
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    savedAt: typeof input.savedAt === "string" ? input.savedAt : new Date(0).toISOString(),
+    mode: input.mode === "bulk" ? "bulk" : "single",
+    language,
+    editors: { reference: readText(editors.reference), submission: readText(editors.submission) },
+    uploadedFiles: readFileMap(input.uploadedFiles),
+    view: readView(input.view),
+  };
+
+  if (isRecord(input.single)) {
+    const inputs = isRecord(input.single.inputs) ? input.single.inputs : {};
+    const validated = validateCompareResponse(input.single.response);
+    if (!validated.ok) {
+      return { ok: false, message: `The saved comparison is malformed: ${validated.issues.join("; ")}` };
+    }
+    session.single = {
+      inputs: {
+        language: readLanguage(inputs.language, language),
+        reference: readText(inputs.reference),
+        submission: readText(inputs.submission),
+      },
+      response: validated.value,
+    };
+  }
+
+  if (isRecord(input.bulk)) {
+    const response = isRecord(input.bulk.response) ? input.bulk.response : {};
+    const validated = validateBulkCompareResponse(response);
+    if (!validated.ok) {
+      return { ok: false, message: `The saved bulk results are malformed: ${validated.issues.join("; ")}` };
+    }
+    session.bulk = {
+      language: readLanguage(input.bulk.language, language),
+      reference: readText(input.bulk.reference),
+      submissions: readSubmissions(input.bulk.submissions),
+      response: { ...validated.value, pairs: readPairs(response.pairs) },
+    };
+  }
+
+  return { ok: true, value: session };
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readText(value: unknown) {
+  return typeof value === "string" ? value : "";
+}
+
+function readLanguage(value: unknown, fallback: LanguageId = DEFAULT_LANGUAGE): LanguageId {
+  return (typeof value === "string" && resolveLanguageId(value)) || fallback;
+}
+
+function readFileMap(value: unknown): Record<string, string> {
+  if (!isRecord(value)) return {};
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === "string"));
+}
+
+function readSubmissions(value: unknown): BulkSubmissionInput[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) =>
+    isRecord(entry) && typeof entry.id === "string" && typeof entry.code === "string"
+      ? [{ id: entry.id, code: entry.code, filename: typeof entry.filename === "string" ? entry.filename : undefined }]
+      : [],
+  );
+}
+
+function readPairs(value: unknown): BulkPairResult[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const fraction = (entry: UnknownRecord, key: string) => {
+    const score = entry[key];
+    return typeof score === "number" && Number.isFinite(score) ? Math.max(0, Math.min(1, score)) : null;
+  };
+  return value.flatMap((entry) => {
+    if (!isRecord(entry) || typeof entry.left_id !== "string" || typeof entry.right_id !== "string") return [];
+    const plagiarism = fraction(entry, "plagiarism_score");
+    const semantic = fraction(entry, "semantic_similarity");
+    const ast = fraction(entry, "ast_similarity");
+    const token = fraction(entry, "token_similarity");
+    if (plagiarism === null || semantic === null || ast === null || token === null) return [];
+    return [
+      {
+        left_id: entry.left_id,
+        right_id: entry.right_id,
+        plagiarism_score: plagiarism,
+        risk_level: typeof entry.risk_level === "string" ? entry.risk_level : "pending",
+        semantic_similarity: semantic,
+        ast_similarity: ast,
+        token_similarity: token,
+      },
+    ];
+  });
+}
+
+function readView(value: unknown): SessionViewState {
+  if (!isRecord(value)) return {};
+  const text = (key: string) => (typeof value[key] === "string" ? (value[key] as string) : undefined);
+  const nullableText = (key: string) => (typeof value[key] === "string" ? (value[key] as string) : null);
+  return {
+    activeTab: text("activeTab"),
+    bulkSortBy: text("bulkSortBy"),
+    bulkView: text("bulkView"),
+    selectedBulkId: nullableText("selectedBulkId"),
+    selectedPairKey: nullableText("selectedPairKey"),
+    selectedFilename: nullableText("selectedFilename"),
+  };
+}
@@ -0,0 +1,150 @@
+export type UpstreamErrorCode =
+  | "UPSTREAM_TIMEOUT"
+  | "UPSTREAM_UNREACHABLE"
+  | "UPSTREAM_ERROR"
+  | "UPSTREAM_BAD_RESPONSE"
+  | "UPSTREAM_REJECTED"
+  | "CIRCUIT_OPEN";
+
+export class UpstreamError extends Error {
+  readonly code: UpstreamErrorCode;
+  readonly upstreamStatus?: number;
+  readonly retryAfterMs?: number;
+  readonly details?: unknown;
+
+  constructor(
+    code: UpstreamErrorCode,
+    message: string,
+    options: { upstreamStatus?: number; retryAfterMs?: number; details?: unknown } = {},
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+    this.code = code;
+    this.upstreamStatus = options.upstreamStatus;
+    this.retryAfterMs = options.retryAfterMs;
+    this.details = options.details;
+  }
+
+  get retryable() {
+    return this.code === "UPSTREAM_TIMEOUT" || this.code === "UPSTREAM_UNREACHABLE" || this.code === "UPSTREAM_ERROR";
+  }
+}
+
+const STATUS_BY_CODE: Record<UpstreamErrorCode, number> = {
+  UPSTREAM_TIMEOUT: 504,
+  UPSTREAM_UNREACHABLE: 502,
+  UPSTREAM_ERROR: 502,
+  UPSTREAM_BAD_RESPONSE: 502,
+  UPSTREAM_REJECTED: 502,
+  CIRCUIT_OPEN: 503,
+};
+
+export function statusForUpstreamError(error: UpstreamError) {
+  // a rejected request is passed on with the analyzer's own 4xx status
+  if (error.code === "UPSTREAM_REJECTED" && error.upstreamStatus) return error.upstreamStatus;
+  return STATUS_BY_CODE[error.code];
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitBreakerOptions = {
+  failureThreshold: number;
+  cooldownMs: number;
+};
+
+export type CircuitBreaker = {
+  state: () => CircuitState;
+  remainingCooldownMs: () => number;
+  tryAcquire: () => boolean;
+  recordSuccess: () => void;
+  recordFailure: () => void;
+};
+
+export function createCircuitBreaker(options: CircuitBreakerOptions): CircuitBreaker {
+  let failures = 0;
+  let openedAt: number | null = null;
+  let probeInFlight = false;
+
+  const state = (): CircuitState => {
+    if (openedAt === null) return "closed";
+    return Date.now() - openedAt >= options.cooldownMs ? "half-open" : "open";
+  };
+
+  return {
+    state,
+    remainingCooldownMs: () => (openedAt === null ? 0 : Math.max(0, options.cooldownMs - (Date.now() - openedAt))),
+    tryAcquire: () => {
+      const current = state();
+      if (current === "closed") return true;
+      if (current === "open" || probeInFlight) return false;
+      // half-open: let a single probe through to test the upstream
+      probeInFlight = true;
+      return true;
+    },
+    recordSuccess: () => {
+      failures = 0;
+      openedAt = null;
+      probeInFlight = false;
+    },
+    recordFailure: () => {
+      probeInFlight = false;
+      if (openedAt !== null) {
+        openedAt = Date.now();
+        return;
+      }
+      failures += 1;
+      if (failures >= options.failureThreshold) {
+        openedAt = Date.now();
+      }
+    },
+  };
+}
+
+export type RetryOptions = {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  /** Epoch ms after which no further attempt starts; a backoff that would cross it ends the retries. */
+  deadline?: number;
+};
+
+export async function withRetries<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const maxDelay = options.maxDelayMs ?? options.baseDelayMs * 16;
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const retryable = error instanceof UpstreamError && error.retryable;
+      if (!retryable || attempt >= options.retries) throw error;
+      const backoff = Math.min(maxDelay, options.baseDelayMs * 2 ** attempt);
+      const delay = backoff / 2 + Math.random() * (backoff / 2);
+      if (options.deadline !== undefined && options.deadline - Date.now() <= delay) throw error;
+      await sleep(delay);
+    }
+  }
+}
+
+export function classifyFetchFailure(error: unknown, timeoutMs: number): UpstreamError {
+  if (error instanceof UpstreamError) return error;
+  const name = error instanceof Error ? error.name : "";
+  if (name === "TimeoutError" || name === "AbortError") {
+    return new UpstreamError("UPSTREAM_TIMEOUT", `Analyzer did not respond within ${formatDuration(timeoutMs)}`);
+  }
+  return new UpstreamError(
+    "UPSTREAM_UNREACHABLE",
+    error instanceof Error && error.message ? `Analyzer unreachable: ${error.message}` : "Analyzer unreachable",
+  );
+}
+
+export function upstreamMessage(data: unknown, status: number) {
+  const message = (data as { message?: unknown } | null)?.message;
+  return typeof message === "string" && message ? message : `Upstream error (${status})`;
+}
+
+function formatDuration(ms: number) {
+  return ms < 1000 ? `${ms}ms` : `${Math.round(ms / 1000)}s`;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}